@@ -1,6 +1,7 @@
 import { createRouter, createWebHashHistory } from 'vue-router'
 import ComparisonView from '@/views/ComparisonView.vue'
 import TopicModelingView from '@/views/TopicModelingView.vue'
+import SearchView from '@/views/SearchView.vue'
 
 const router = createRouter({
   history: createWebHashHistory(import.meta.env.BASE_URL),
@@ -15,6 +16,11 @@ const router = createRouter({
       name: 'topics',
       component: TopicModelingView,
     },
+    {
+      path: '/search',
+      name: 'search',
+      component: SearchView,
+    },
   ],
 })
 
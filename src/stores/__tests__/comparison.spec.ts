@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useComparisonStore } from '../comparison'
+
+// Offline end to end: CSV upload, the hashing embedder and the in-process
+// compute jobs (jsdom has no Worker), through the store as the views use it.
+// The hashing model is the default, so the store never downloads weights.
+vi.mock('@/utils/models', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/models')>()),
+  DEFAULT_MODEL: 'hashing/512',
+}))
+
+const PRODUCTS_CSV = [
+  'sku,name',
+  'A-1,Red cotton t-shirt size M',
+  'A-2,Stainless steel water bottle 750ml',
+  'A-3,"Red cotton T-shirt, size M"',
+  'A-4,Wireless noise cancelling headphones',
+  'A-5,"Stainless steel water bottle, 750 ml"',
+].join('\n')
+
+async function createStore() {
+  const store = useComparisonStore()
+  await vi.waitFor(() => expect(store.isModelReady).toBe(true))
+  expect(store.selectedModel).toBe('hashing/512')
+  expect(store.loadedBackend).toBeNull()
+
+  await store.loadFile(new File([PRODUCTS_CSV], 'products.csv', { type: 'text/csv' }), 'csv')
+  store.setComparisonColumns(['name'])
+  return store
+}
+
+describe('comparison store with the hashing model', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('finds near-duplicate rows of a CSV file', async () => {
+    const store = await createStore()
+    await store.runComparison()
+
+    const pairs = store.similarityResults.map((pair) => [pair.rowIndexA, pair.rowIndexB].sort())
+    expect(pairs).toHaveLength(10)
+    expect(pairs.slice(0, 2)).toEqual(
+      expect.arrayContaining([
+        [0, 2],
+        [1, 4],
+      ]),
+    )
+    expect(store.similarityResults[0]!.score).toBeGreaterThan(store.similarityResults[2]!.score)
+    expect(store.embeddings).toHaveLength(5)
+    expect(store.isComparing).toBe(false)
+  })
+
+  it('keeps the best match per row in top-K mode', async () => {
+    const store = await createStore()
+    store.resultMode = 'topK'
+    store.topK = 1
+    await store.runComparison()
+
+    const bestMatch = Object.fromEntries(
+      store.similarityResults.map((pair) => [pair.rowIndexA, pair.rowIndexB]),
+    )
+    expect(bestMatch).toMatchObject({ 0: 2, 1: 4, 2: 0, 4: 1 })
+    expect(store.similarityResults.every((pair) => pair.rank === 1)).toBe(true)
+  })
+
+  it('re-ranks retrieved pairs with lexical measures', async () => {
+    const store = await createStore()
+    store.minScore = 0.2
+    store.hybridScoring = true
+    await store.runComparison()
+
+    expect(store.similarityResults.length).toBeGreaterThan(0)
+    for (const pair of store.similarityResults) {
+      expect(pair.semanticScore).toBeGreaterThanOrEqual(0.2)
+      // The blended measures are kept for the breakdown and the export
+      expect(Object.keys(pair.lexicalScores!).sort()).toEqual(['jaccard', 'levenshtein', 'ngram'])
+    }
+  })
+
+  it('rejects lexical blending of every pair and stops comparing', async () => {
+    const store = await createStore()
+    store.hybridScoring = true
+    expect(store.canBlendLexical).toBe(false)
+    await expect(store.runComparison()).rejects.toThrow('minimum score')
+    expect(store.isComparing).toBe(false)
+  })
+})
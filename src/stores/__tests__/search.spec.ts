@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useComparisonStore } from '../comparison'
+import { useSearchStore } from '../search'
+
+// Offline: the hashing model embeds the rows and the query in-process
+vi.mock('@/utils/models', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/models')>()),
+  DEFAULT_MODEL: 'hashing/512',
+}))
+
+const FAQ_CSV = [
+  'id,question',
+  'q1,How do I reset my password?',
+  'q2,Where is my refund for a returned order?',
+  'q3,Can I change the delivery address?',
+].join('\n')
+
+async function createStores() {
+  const comparison = useComparisonStore()
+  await vi.waitFor(() => expect(comparison.isModelReady).toBe(true))
+  await comparison.loadFile(new File([FAQ_CSV], 'faq.csv', { type: 'text/csv' }), 'csv')
+  comparison.setComparisonColumns(['question'])
+  return { comparison, search: useSearchStore() }
+}
+
+describe('search store with the hashing model', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('ranks rows by similarity to the query', async () => {
+    const { search } = await createStores()
+    search.query = 'refund for my order'
+
+    const running = search.runSearch()
+    expect(search.isSearching).toBe(true)
+    await running
+
+    expect(search.isSearching).toBe(false)
+    expect(search.lastQuery).toBe('refund for my order')
+    expect(search.searchResults.map((result) => result.rowIndex)[0]).toBe(1)
+    expect(search.searchResults).toHaveLength(3)
+  })
+
+  it('waits for a running comparison', async () => {
+    const { comparison, search } = await createStores()
+    search.query = 'password'
+    expect(search.canSearch).toBe(true)
+
+    comparison.isComparing = true
+    expect(search.canSearch).toBe(false)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useTopicModelingStore } from '../topicModeling'
+
+// Offline end to end: CSV upload, the hashing embedder, clustering and keyword
+// extraction in-process (jsdom has no Worker), through the store.
+vi.mock('@/utils/models', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/models')>()),
+  DEFAULT_MODEL: 'hashing/512',
+}))
+
+const TICKETS_CSV = [
+  'id,text',
+  '1,Invoice payment failed on credit card',
+  '2,Credit card payment declined for invoice',
+  '3,Refund the invoice payment to my card',
+  '4,Password reset email never arrives',
+  '5,Cannot reset my account password',
+  '6,',
+  '7,Reset password link expired for account',
+].join('\n')
+
+async function createStore() {
+  const store = useTopicModelingStore()
+  await vi.waitFor(() => expect(store.isModelReady).toBe(true))
+
+  await store.loadFile(new File([TICKETS_CSV], 'tickets.csv', { type: 'text/csv' }), 'csv')
+  store.setAnalysisColumns(['text'])
+  store.clusteringMethod = 'hierarchical'
+  store.numberOfTopics = 2
+  return store
+}
+
+describe('topic modeling store with the hashing model', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('groups the rows of a CSV file into topics', async () => {
+    const store = await createStore()
+    await store.runTopicModeling()
+
+    expect(store.topics).toHaveLength(2)
+    const groups = store.topics.map((topic) => [...topic.documentIndices].sort()).sort()
+    // Row 5 is empty and skipped; indices are file rows
+    expect(groups).toEqual([
+      [0, 1, 2],
+      [3, 4, 6],
+    ])
+    const billing = store.topics.find((topic) => topic.documentIndices.includes(0))!
+    expect(billing.keywords).toContain('invoice')
+    expect(store.isAnalyzing).toBe(false)
+  })
+
+  it('reuses the embeddings until the analysis text changes', async () => {
+    const store = await createStore()
+    await store.runTopicModeling()
+    const embeddings = store.embeddings
+
+    store.numberOfTopics = 3
+    await store.runTopicModeling()
+    expect(store.embeddings).toBe(embeddings)
+    expect(store.topics).toHaveLength(3)
+
+    store.setTextTemplate('Ticket: {text}')
+    await vi.waitFor(() => expect(store.embeddings).toHaveLength(0))
+  })
+})
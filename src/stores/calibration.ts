@@ -0,0 +1,170 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { CsvRow } from '@/utils/csvParser'
+import { parseCSV } from '@/utils/csvParser'
+import { parseXlsx, readWorkbook } from '@/utils/xlsxParser'
+import { useComparisonStore } from '@/stores/comparison'
+import {
+  calibrate,
+  resolveGroundTruth,
+  type GroundTruthIdMode,
+  type GroundTruthMapping,
+} from '@/utils/calibration'
+
+// Best-F1 summary of one model's results against the ground truth
+export interface ModelCalibration {
+  model: string
+  // Preprocessing steps of the run, joined for display
+  preprocessing: string
+  bestThreshold: number
+  precision: number
+  recall: number
+  f1: number
+}
+
+export const useCalibrationStore = defineStore('calibration', () => {
+  // Results and loaded rows come from the comparison store
+  const comparison = useComparisonStore()
+
+  // Ground-truth file
+  const truthHeaders = ref<string[]>([])
+  const truthRows = ref<CsvRow[]>([])
+  const truthFileName = ref<string | null>(null)
+
+  // Column mapping
+  const columnA = ref('')
+  const columnB = ref('')
+  const labelColumn = ref<string | null>(null)
+  const idMode = ref<GroundTruthIdMode>('rowNumber')
+  const keyColumnA = ref('')
+  const keyColumnB = ref('')
+  const unlistedAreNonMatches = ref(true)
+
+  // Best F1 per model and preprocessing chain, for comparing them on the same
+  // ground truth
+  const modelCalibrations = ref<ModelCalibration[]>([])
+
+  // Computed
+  const hasGroundTruth = computed(() => truthRows.value.length > 0)
+
+  const mapping = computed<GroundTruthMapping>(() => ({
+    columnA: columnA.value,
+    columnB: columnB.value,
+    labelColumn: labelColumn.value,
+    idMode: idMode.value,
+    keyColumnA: keyColumnA.value,
+    keyColumnB: keyColumnB.value,
+  }))
+
+  const groundTruth = computed(() => {
+    if (!hasGroundTruth.value) return null
+    return resolveGroundTruth(
+      truthRows.value,
+      mapping.value,
+      comparison.csvRows,
+      comparison.isCrossMode ? comparison.csvRowsB : null,
+    )
+  })
+
+  const calibration = computed(() => {
+    if (!groundTruth.value || comparison.similarityResults.length === 0) return null
+    return calibrate(comparison.similarityResults, groundTruth.value, unlistedAreNonMatches.value)
+  })
+
+  // Key columns default to the first column of each dataset
+  watch(idMode, (mode) => {
+    if (mode !== 'keyColumn') return
+    keyColumnA.value ||= comparison.csvHeaders[0] ?? ''
+    keyColumnB.value ||=
+      (comparison.isCrossMode ? comparison.csvHeadersB[0] : comparison.csvHeaders[0]) ?? ''
+  })
+
+  // A different ground truth makes earlier model scores incomparable
+  watch([groundTruth, unlistedAreNonMatches], () => {
+    modelCalibrations.value = []
+  })
+
+  // Record the latest run of the current model and preprocessing
+  watch(calibration, (result) => {
+    if (!result?.best) return
+    const entry: ModelCalibration = {
+      model: comparison.selectedModel,
+      preprocessing: comparison.resultsPreprocessing.join(' → '),
+      bestThreshold: result.best.threshold,
+      precision: result.best.precision,
+      recall: result.best.recall,
+      f1: result.best.f1,
+    }
+    modelCalibrations.value = [
+      ...modelCalibrations.value.filter(
+        (item) => item.model !== entry.model || item.preprocessing !== entry.preprocessing,
+      ),
+      entry,
+    ]
+  })
+
+  // Load a ground-truth CSV or XLSX (first sheet)
+  async function loadTruthFile(file: File) {
+    try {
+      const name = file.name.toLowerCase()
+      let parsed
+      if (name.endsWith('.csv')) {
+        parsed = await parseCSV(file)
+      } else if (name.endsWith('.xlsx')) {
+        const { sheetNames } = await readWorkbook(file)
+        if (!sheetNames[0]) {
+          throw new Error('Workbook has no sheets')
+        }
+        parsed = await parseXlsx(file, sheetNames[0])
+      } else {
+        throw new Error('Unsupported file type')
+      }
+
+      if (parsed.headers.length < 2) {
+        throw new Error('Ground-truth file needs at least two columns (one per row of a pair)')
+      }
+
+      truthHeaders.value = parsed.headers
+      truthRows.value = parsed.rows
+      truthFileName.value = file.name
+
+      // Guess the mapping: first two columns are the pair, a third one the label
+      columnA.value = parsed.headers[0]!
+      columnB.value = parsed.headers[1]!
+      labelColumn.value = parsed.headers[2] ?? null
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to parse file')
+    }
+  }
+
+  function clearGroundTruth() {
+    truthHeaders.value = []
+    truthRows.value = []
+    truthFileName.value = null
+    modelCalibrations.value = []
+  }
+
+  return {
+    // State
+    truthHeaders,
+    truthRows,
+    truthFileName,
+    columnA,
+    columnB,
+    labelColumn,
+    idMode,
+    keyColumnA,
+    keyColumnB,
+    unlistedAreNonMatches,
+    modelCalibrations,
+
+    // Computed
+    hasGroundTruth,
+    groundTruth,
+    calibration,
+
+    // Actions
+    loadTruthFile,
+    clearGroundTruth,
+  }
+})
@@ -1,53 +1,263 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { ref, computed, toRaw, watch } from 'vue'
 import type { CsvRow } from '@/utils/csvParser'
 import { parseCSV } from '@/utils/csvParser'
 import { parseXlsx } from '@/utils/xlsxParser'
+import { DEFAULT_MODEL, getModelDescriptor, type ModelName } from '@/utils/models'
+import { useModelsStore } from '@/stores/models'
+import type { EmbedderBackend } from '@/utils/backendSettings'
+import { cacheVariant } from '@/utils/embeddingCache'
+import { DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE } from '@/utils/batching'
 import {
-  initializeModel,
-  generateEmbeddings,
-  AVAILABLE_MODELS,
-  type ModelName,
-} from '@/utils/embeddings'
-import { calculatePairwiseSimilarities, type SimilarityPair } from '@/utils/similarity'
+  MAX_TOP_K,
+  type ColumnEmbeddings,
+  type DatasetSide,
+  type ResultMode,
+  type SimilarityOptions,
+  type SimilarityPair,
+} from '@/utils/similarity'
+import { buildDuplicateGroups, type GroupingMode } from '@/utils/duplicateGroups'
+import type { SurvivorRule } from '@/utils/datasetExport'
+import type { PairConstraint } from '@/utils/pairConstraints'
+import {
+  cancelWorkerJobs,
+  isCancelledError,
+  runWorkerJob,
+  type SimilarityJob,
+} from '@/utils/computeWorker'
+import { pairKey, type PairLabel } from '@/utils/pairReview'
+import { computeScoreBandCutoffs } from '@/utils/scoreDistribution'
+import {
+  DEFAULT_CHUNKING,
+  findBestChunkMatch,
+  type ChunkingOptions,
+  type ChunkMatch,
+  type RowChunks,
+} from '@/utils/chunking'
+import {
+  DEFAULT_PREPROCESSING,
+  describePreprocessing,
+  isPreprocessingActive,
+  preprocessText,
+  type PreprocessingOptions,
+} from '@/utils/preprocessing'
+import {
+  loadSavedTemplate,
+  renderTemplate,
+  saveTemplate,
+  templateColumns,
+} from '@/utils/textTemplate'
+import {
+  isBlankText,
+  prepareEmbeddingInput,
+  remapPairRows,
+  type EmptyRowPolicy,
+} from '@/utils/emptyRows'
+import {
+  vectorsFromColumn,
+  vectorsFromJsonl,
+  vectorsFromNpy,
+  type PrecomputedEmbeddings,
+} from '@/utils/precomputedEmbeddings'
+import { DEFAULT_HYBRID_WEIGHTS, type HybridWeights } from '@/utils/lexicalSimilarity'
+
+// 'single' compares rows within one file, 'cross' matches rows of file A against file B
+export type ComparisonMode = 'single' | 'cross'
+
+// 'joined' embeds the comparison columns as one text, 'perColumn' embeds each
+// column separately and combines the per-column scores with column weights
+export type EmbeddingMode = 'joined' | 'perColumn'
 
 export const useComparisonStore = defineStore('comparison', () => {
+  // Built-in and custom models
+  const models = useModelsStore()
+
   // Model state
-  const selectedModel = ref<ModelName>('Xenova/bge-small-en-v1.5')
+  const selectedModel = ref<ModelName>(DEFAULT_MODEL)
   const isModelLoading = ref(false)
   const isModelReady = ref(false)
   const modelError = ref<string | null>(null)
+  // Device, dtype and threads the model actually loaded with
+  const loadedBackend = ref<EmbedderBackend | null>(null)
 
-  // File data
+  // Texts per inference call when generating embeddings
+  const batchSize = ref(DEFAULT_BATCH_SIZE)
+
+  // Comparison mode
+  const comparisonMode = ref<ComparisonMode>('single')
+
+  // File data (dataset A)
   const csvHeaders = ref<string[]>([])
   const csvRows = ref<CsvRow[]>([])
   const fileName = ref<string | null>(null)
   const sheetName = ref<string | null>(null)
 
+  // File data (dataset B, cross-file mode only)
+  const csvHeadersB = ref<string[]>([])
+  const csvRowsB = ref<CsvRow[]>([])
+  const fileNameB = ref<string | null>(null)
+  const sheetNameB = ref<string | null>(null)
+
   // Column selections
   const comparisonColumns = ref<string[]>([])
   const displayColumns = ref<string[]>([])
+  const comparisonColumnsB = ref<string[]>([])
+  const displayColumnsB = ref<string[]>([])
+
+  // Text composition templates; null joins the comparison columns with spaces
+  const textTemplate = ref<string | null>(null)
+  const textTemplateB = ref<string | null>(null)
+
+  // Cleanup applied to the composed text (and to per-column cell values)
+  // before embedding
+  const preprocessing = ref<PreprocessingOptions>(structuredClone(DEFAULT_PREPROCESSING))
+
+  // Column embedding settings. Weights are keyed by dataset A column; in cross-file
+  // mode the i-th comparison column of A is matched with the i-th column of B.
+  const embeddingMode = ref<EmbeddingMode>('joined')
+  const columnWeights = ref<Record<string, number>>({})
 
   // Embeddings and results
   const embeddings = ref<number[][]>([])
+  const embeddingsB = ref<number[][]>([])
+  // Rows with empty comparison text are skipped or embedded as a placeholder;
+  // embeddingRowIndices maps each embedding back to its row
+  const emptyRowPolicy = ref<EmptyRowPolicy>('exclude')
+  const embeddingRowIndices = ref<number[]>([])
+  const embeddingRowIndicesB = ref<number[]>([])
+  // Long-text chunking; rowChunks holds each row's chunks (by row index) when
+  // the current joined embeddings were chunked
+  const chunking = ref<ChunkingOptions>({ ...DEFAULT_CHUNKING })
+  const rowChunks = ref<(RowChunks | null)[]>([])
+  const rowChunksB = ref<(RowChunks | null)[]>([])
+  // Model, columns and empty-row policy the current embeddings were generated from
+  const embeddingsSource = ref<string | null>(null)
+  const embeddingsSourceB = ref<string | null>(null)
+  const columnEmbeddings = ref<ColumnEmbeddings>([])
+  const columnEmbeddingsB = ref<ColumnEmbeddings>([])
+  const columnEmbeddingsSource = ref<string | null>(null)
+  const columnEmbeddingsSourceB = ref<string | null>(null)
+  // Imported vectors used instead of the model's (joined mode only)
+  const precomputedEmbeddings = ref<PrecomputedEmbeddings | null>(null)
+  const precomputedEmbeddingsB = ref<PrecomputedEmbeddings | null>(null)
   const similarityResults = ref<SimilarityPair[]>([])
+  // Preprocessing steps the current results were computed with
+  const resultsPreprocessing = ref<string[]>([])
   const isComparing = ref(false)
   const comparisonProgress = ref(0)
-  const comparisonPhase = ref<'embeddings' | 'similarity' | ''>('')
+  const comparisonPhase = ref<'embeddings' | 'similarity' | 'lexical' | ''>('')
+
+  // Result settings: every pair, or only the best K matches per row
+  const resultMode = ref<ResultMode>('all')
+  const topK = ref(5)
+  const minScore = ref<number | null>(null)
+
+  // Pair constraints: restrict which pairs are scored at all
+  const pairConstraints = ref<PairConstraint[]>([])
+
+  // Hybrid scoring: blend lexical overlap of the comparison texts into the score
+  const hybridScoring = ref(false)
+  const hybridWeights = ref<HybridWeights>({ ...DEFAULT_HYBRID_WEIGHTS })
+
+  // Review labels per file and comparison columns (keyed by pairKey), kept across
+  // re-runs so a re-run on the same data shows the earlier verdicts
+  const reviewLabelSets = ref<Record<string, Record<string, PairLabel>>>({})
+  const resultsReviewKey = ref<string | null>(null)
+
+  // Duplicate grouping settings
+  const groupThreshold = ref(getModelDescriptor(DEFAULT_MODEL).recommendedThreshold)
+  const groupingMode = ref<GroupingMode>('connected')
+  const survivorRule = ref<SurvivorRule>('first')
 
   // Display settings
   const maxDisplayRows = ref(50)
+  // Pairs scoring below this are hidden from the table and pair export (null = show all)
+  const scoreThreshold = ref<number | null>(null)
 
   // Computed
+  const isCrossMode = computed(() => comparisonMode.value === 'cross')
+  const availableModels = computed(() => models.availableModels)
+  // A removed custom model falls back to the default until the watch below
+  // switches models
+  const modelDescriptor = computed(
+    () =>
+      availableModels.value.find((model) => model.id === selectedModel.value) ??
+      getModelDescriptor(DEFAULT_MODEL),
+  )
   const hasData = computed(() => csvRows.value.length > 0)
-  const canCompare = computed(
-    () => hasData.value && comparisonColumns.value.length > 0 && isModelReady.value,
+  const hasDataB = computed(() => csvRowsB.value.length > 0)
+  // Per-column cross-file comparison pairs the columns of A and B by position
+  const hasMatchingColumns = computed(
+    () => comparisonColumns.value.length === comparisonColumnsB.value.length,
+  )
+  // Rows whose comparison columns are all empty
+  const emptyRowCount = computed(() => buildComparisonTexts('A').filter(isBlankText).length)
+  const emptyRowCountB = computed(() =>
+    isCrossMode.value ? buildComparisonTexts('B').filter(isBlankText).length : 0,
+  )
+  // Imported embeddings need neither comparison columns nor the model
+  const canCompare = computed(() => {
+    if (!hasData.value || !hasEmbeddingSource('A')) {
+      return false
+    }
+    if (isCrossMode.value) {
+      return (
+        hasDataB.value &&
+        hasEmbeddingSource('B') &&
+        (embeddingMode.value === 'joined' || hasMatchingColumns.value)
+      )
+    }
+    return true
+  })
+
+  // Lexical measures are only computed for retrieved pairs, never for every
+  // pair of the file, so hybrid scoring needs top-K or a minimum score
+  const canBlendLexical = computed(() => resultMode.value === 'topK' || minScore.value !== null)
+
+  // Constraints whose columns exist in the loaded data
+  const activeConstraints = computed(() =>
+    pairConstraints.value.filter((constraint) => {
+      if (!csvHeaders.value.includes(constraint.column)) return false
+      if (isCrossMode.value) {
+        return csvHeadersB.value.includes(constraint.columnB ?? constraint.column)
+      }
+      return true
+    }),
+  )
+
+  // Labels of the pairs currently shown
+  const pairLabels = computed<Record<string, PairLabel>>(() =>
+    resultsReviewKey.value ? (reviewLabelSets.value[resultsReviewKey.value] ?? {}) : {},
+  )
+
+  const thresholdedResults = computed(() => {
+    const threshold = scoreThreshold.value
+    if (threshold === null) {
+      return similarityResults.value
+    }
+    return similarityResults.value.filter((result) => result.score >= threshold)
+  })
+
+  // Score colour bands at percentiles of the current results
+  const scoreBandCutoffs = computed(() =>
+    computeScoreBandCutoffs(similarityResults.value.map((result) => result.score)),
   )
 
   const displayedResults = computed(() => {
-    return similarityResults.value.slice(0, maxDisplayRows.value)
+    return thresholdedResults.value.slice(0, maxDisplayRows.value)
   })
 
+  // Matched pairs merged into duplicate groups at the current threshold
+  const duplicateGroups = computed(() =>
+    buildDuplicateGroups(similarityResults.value, groupThreshold.value, groupingMode.value),
+  )
+
+  function hasEmbeddingSource(side: DatasetSide): boolean {
+    if ((side === 'B' ? precomputedEmbeddingsB : precomputedEmbeddings).value) return true
+    const columns = side === 'B' ? comparisonColumnsB.value : comparisonColumns.value
+    return columns.length > 0 && isModelReady.value
+  }
+
   // Initialize model immediately
   async function loadModel() {
     if (isModelReady.value || isModelLoading.value) {
@@ -58,7 +268,7 @@ export const useComparisonStore = defineStore('comparison', () => {
     modelError.value = null
 
     try {
-      await initializeModel(selectedModel.value)
+      loadedBackend.value = await runWorkerJob('loadModel', { model: selectedModel.value })
       isModelReady.value = true
     } catch (error) {
       modelError.value = error instanceof Error ? error.message : 'Failed to load model'
@@ -72,40 +282,85 @@ export const useComparisonStore = defineStore('comparison', () => {
   async function changeModel(modelName: ModelName) {
     selectedModel.value = modelName
     isModelReady.value = false
+    loadedBackend.value = null
 
     // Clear embeddings and results when model changes
     embeddings.value = []
+    embeddingsB.value = []
+    rowChunks.value = []
+    rowChunksB.value = []
+    columnEmbeddings.value = []
+    columnEmbeddingsB.value = []
     similarityResults.value = []
+    // Score scales differ between models
+    groupThreshold.value = modelDescriptor.value.recommendedThreshold
 
     await loadModel()
   }
 
-  // Load file (CSV or XLSX)
-  async function loadFile(file: File, fileType: 'csv' | 'xlsx', selectedSheet?: string) {
+  // Switch between single-file and cross-file comparison
+  function setComparisonMode(mode: ComparisonMode) {
+    if (comparisonMode.value === mode) return
+    comparisonMode.value = mode
+    similarityResults.value = []
+  }
+
+  // Load file (CSV or XLSX) into dataset A or B
+  async function loadFile(
+    file: File,
+    fileType: 'csv' | 'xlsx',
+    selectedSheet?: string,
+    side: DatasetSide = 'A',
+  ) {
     try {
       let parsed
 
       if (fileType === 'csv') {
         parsed = await parseCSV(file)
-        sheetName.value = null
       } else if (fileType === 'xlsx') {
         if (!selectedSheet) {
           throw new Error('Sheet name is required for XLSX files')
         }
         parsed = await parseXlsx(file, selectedSheet)
-        sheetName.value = selectedSheet
       } else {
         throw new Error('Unsupported file type')
       }
 
-      csvHeaders.value = parsed.headers
-      csvRows.value = parsed.rows
-      fileName.value = file.name
+      const loadedSheet = fileType === 'xlsx' ? (selectedSheet ?? null) : null
+
+      if (side === 'B') {
+        csvHeadersB.value = parsed.headers
+        csvRowsB.value = parsed.rows
+        fileNameB.value = file.name
+        sheetNameB.value = loadedSheet
+        comparisonColumnsB.value = []
+        displayColumnsB.value = []
+        textTemplateB.value = null
+        embeddingsB.value = []
+        rowChunksB.value = []
+        columnEmbeddingsB.value = []
+        precomputedEmbeddingsB.value = null
+      } else {
+        csvHeaders.value = parsed.headers
+        csvRows.value = parsed.rows
+        fileName.value = file.name
+        sheetName.value = loadedSheet
+        comparisonColumns.value = []
+        displayColumns.value = []
+        textTemplate.value = null
+        embeddings.value = []
+        rowChunks.value = []
+        columnEmbeddings.value = []
+        precomputedEmbeddings.value = null
+      }
+
+      // Bring back the template last used with the same columns
+      const savedTemplate = loadSavedTemplate(parsed.headers)
+      if (savedTemplate !== null) {
+        setTextTemplate(savedTemplate, side)
+      }
 
-      // Reset selections and results
-      comparisonColumns.value = []
-      displayColumns.value = []
-      embeddings.value = []
+      // Results no longer match the loaded data
       similarityResults.value = []
     } catch (error) {
       throw new Error(error instanceof Error ? error.message : 'Failed to parse file')
@@ -118,17 +373,282 @@ export const useComparisonStore = defineStore('comparison', () => {
   }
 
   // Set comparison columns
-  function setComparisonColumns(columns: string[]) {
-    comparisonColumns.value = columns
+  function setComparisonColumns(columns: string[], side: DatasetSide = 'A') {
+    const target = side === 'B' ? comparisonColumnsB : comparisonColumns
+    const display = side === 'B' ? displayColumnsB : displayColumns
+    target.value = columns
     // Default display columns to comparison columns
-    if (displayColumns.value.length === 0) {
-      displayColumns.value = [...columns]
+    if (display.value.length === 0) {
+      display.value = [...columns]
+    }
+  }
+
+  // Use a text template for a dataset (null goes back to joining the comparison
+  // columns). The template's columns become the comparison columns, and the
+  // template is remembered for files with the same headers.
+  function setTextTemplate(template: string | null, side: DatasetSide = 'A') {
+    const target = side === 'B' ? textTemplateB : textTemplate
+    const headers = side === 'B' ? csvHeadersB.value : csvHeaders.value
+    target.value = template
+    saveTemplate(headers, template)
+    if (template !== null) {
+      setComparisonColumns(
+        templateColumns(template).filter((column) => headers.includes(column)),
+        side,
+      )
     }
   }
 
   // Set display columns
-  function setDisplayColumns(columns: string[]) {
-    displayColumns.value = columns
+  function setDisplayColumns(columns: string[], side: DatasetSide = 'A') {
+    const target = side === 'B' ? displayColumnsB : displayColumns
+    target.value = columns
+  }
+
+  // Look up the original row a result index refers to
+  function getRow(side: DatasetSide, index: number): CsvRow | undefined {
+    return side === 'B' ? csvRowsB.value[index] : csvRows.value[index]
+  }
+
+  // Generate text from selected columns for each row
+  function buildComparisonTexts(side: DatasetSide): string[] {
+    const rows = side === 'B' ? csvRowsB.value : csvRows.value
+    return rows.map((row) => composeText(side, row))
+  }
+
+  // Text of a row before preprocessing: the rendered template, or the
+  // comparison columns joined with spaces
+  function composeRawText(side: DatasetSide, row: CsvRow): string {
+    const template = side === 'B' ? textTemplateB.value : textTemplate.value
+    if (template !== null) return renderTemplate(template, row)
+    const columns = side === 'B' ? comparisonColumnsB.value : comparisonColumns.value
+    return columns.map((col) => row[col] || '').join(' ')
+  }
+
+  // Embedding input of a row
+  function composeText(side: DatasetSide, row: CsvRow): string {
+    return preprocessText(composeRawText(side, row), preprocessing.value)
+  }
+
+  // Comparison text of a single row
+  function getComparisonText(side: DatasetSide, index: number): string {
+    const row = getRow(side, index)
+    return row ? composeText(side, row) : ''
+  }
+
+  // Comparison text of a single row before preprocessing, for previews
+  function getRawComparisonText(side: DatasetSide, index: number): string {
+    const row = getRow(side, index)
+    return row ? composeRawText(side, row) : ''
+  }
+
+  // Embed texts in the worker, chunking long ones when enabled. Progress is
+  // reported in texts or chunks, whichever the worker embeds.
+  async function embedTexts(
+    texts: string[],
+    onProgress?: (current: number, total: number) => void,
+  ): Promise<{ embeddings: number[][]; chunks: RowChunks[] | null }> {
+    const request = { model: selectedModel.value, texts, batchSize: batchSize.value }
+    if (!chunking.value.enabled) {
+      return { embeddings: await runWorkerJob('embed', request, onProgress), chunks: null }
+    }
+    return runWorkerJob('embedChunked', { ...request, chunking: { ...chunking.value } }, onProgress)
+  }
+
+  // Embedding settings that change the vectors, for the source keys
+  function embeddingSettingsKey(): unknown[] {
+    return [
+      selectedModel.value,
+      cacheVariant(modelDescriptor.value, loadedBackend.value),
+      chunking.value.enabled ? chunking.value : null,
+      isPreprocessingActive(preprocessing.value) ? preprocessing.value : null,
+    ]
+  }
+
+  // Generate embeddings for a dataset unless the current ones were already
+  // generated with the same model, comparison columns and empty-row policy.
+  // Imported embeddings are used as they are. Embedding i belongs to row
+  // embeddingRowIndices[i] of that dataset.
+  async function ensureEmbeddings(
+    side: DatasetSide = 'A',
+    onProgress?: (current: number, total: number) => void,
+  ): Promise<number[][]> {
+    const target = side === 'B' ? embeddingsB : embeddings
+    const rowIndices = side === 'B' ? embeddingRowIndicesB : embeddingRowIndices
+    const chunksTarget = side === 'B' ? rowChunksB : rowChunks
+    const source = side === 'B' ? embeddingsSourceB : embeddingsSource
+    const precomputed = (side === 'B' ? precomputedEmbeddingsB : precomputedEmbeddings).value
+
+    if (precomputed) {
+      // Rows without a vector are left out, like empty rows
+      rowIndices.value = precomputed.vectors.flatMap((vector, index) => (vector ? [index] : []))
+      target.value = rowIndices.value.map((index) => precomputed.vectors[index]!)
+      chunksTarget.value = []
+      source.value = null
+      return target.value
+    }
+
+    const rowCount = side === 'B' ? csvRowsB.value.length : csvRows.value.length
+    const columns = side === 'B' ? comparisonColumnsB.value : comparisonColumns.value
+    const template = side === 'B' ? textTemplateB.value : textTemplate.value
+    const key = JSON.stringify([...embeddingSettingsKey(), columns, template, emptyRowPolicy.value])
+
+    if (target.value.length > 0 && source.value === key) {
+      return target.value
+    }
+
+    const input = prepareEmbeddingInput(buildComparisonTexts(side), emptyRowPolicy.value)
+    const { embeddings: vectors, chunks } = await embedTexts(input.texts, onProgress)
+    target.value = vectors
+    rowIndices.value = input.rowIndices
+    const byRow: (RowChunks | null)[] = chunks ? new Array(rowCount).fill(null) : []
+    chunks?.forEach((rowChunk, i) => (byRow[input.rowIndices[i]!] = rowChunk))
+    chunksTarget.value = byRow
+    source.value = key
+    return target.value
+  }
+
+  // Use vectors from a column of the loaded file instead of the model
+  function importEmbeddingsColumn(column: string, side: DatasetSide = 'A') {
+    const rows = side === 'B' ? csvRowsB.value : csvRows.value
+    setPrecomputedEmbeddings(vectorsFromColumn(rows, column), side)
+  }
+
+  // Use vectors from a sidecar .npy or .jsonl file with one vector per row
+  async function importEmbeddingsFile(file: File, side: DatasetSide = 'A') {
+    const rowCount = side === 'B' ? csvRowsB.value.length : csvRows.value.length
+    const name = file.name.toLowerCase()
+    try {
+      if (name.endsWith('.npy')) {
+        setPrecomputedEmbeddings(
+          vectorsFromNpy(await file.arrayBuffer(), file.name, rowCount),
+          side,
+        )
+      } else if (name.endsWith('.jsonl')) {
+        setPrecomputedEmbeddings(vectorsFromJsonl(await file.text(), file.name, rowCount), side)
+      } else {
+        throw new Error('Please select a .npy or .jsonl file')
+      }
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to read embeddings')
+    }
+  }
+
+  // null goes back to embedding with the selected model
+  function setPrecomputedEmbeddings(value: PrecomputedEmbeddings | null, side: DatasetSide = 'A') {
+    const target = side === 'B' ? precomputedEmbeddingsB : precomputedEmbeddings
+    const current = side === 'B' ? embeddingsB : embeddings
+    const source = side === 'B' ? embeddingsSourceB : embeddingsSource
+    target.value = value
+    current.value = []
+    source.value = null
+  }
+
+  // Imported embeddings of both files must live in the same vector space
+  function checkPrecomputedEmbeddings() {
+    const imported = [precomputedEmbeddings.value, precomputedEmbeddingsB.value]
+    if (!imported[0] && !(isCrossMode.value && imported[1])) return
+    if (embeddingMode.value === 'perColumn') {
+      throw new Error('Imported embeddings cover whole rows; switch to joined embeddings')
+    }
+    if (!isCrossMode.value) return
+    if (!imported[0] || !imported[1]) {
+      throw new Error('Import embeddings for both files, or for neither')
+    }
+    if (imported[0].dimensions !== imported[1].dimensions) {
+      throw new Error(
+        `File A embeddings have ${imported[0].dimensions} dimensions, file B ${imported[1].dimensions}`,
+      )
+    }
+  }
+
+  // Weight of a comparison column (dataset A name); unset columns weigh 1
+  function getColumnWeight(column: string): number {
+    return columnWeights.value[column] ?? 1
+  }
+
+  function setColumnWeight(column: string, weight: number) {
+    columnWeights.value = { ...columnWeights.value, [column]: weight }
+  }
+
+  // Embed each comparison column separately. Empty cells get no embedding so
+  // they can be left out of the weighted score instead of counting as zero.
+  async function ensureColumnEmbeddings(
+    side: DatasetSide = 'A',
+    onProgress?: (current: number, total: number) => void,
+  ): Promise<ColumnEmbeddings> {
+    const target = side === 'B' ? columnEmbeddingsB : columnEmbeddings
+    const source = side === 'B' ? columnEmbeddingsSourceB : columnEmbeddingsSource
+    const rows = side === 'B' ? csvRowsB.value : csvRows.value
+    const columns = side === 'B' ? comparisonColumnsB.value : comparisonColumns.value
+    const key = JSON.stringify([...embeddingSettingsKey(), columns])
+
+    if (target.value.length > 0 && source.value === key) {
+      return target.value
+    }
+
+    const cells = columns.map((col) =>
+      rows.map((row) => preprocessText(row[col] || '', preprocessing.value)),
+    )
+    const filled = cells.map((values) =>
+      values.flatMap((value, index) => (value.trim() ? [index] : [])),
+    )
+    const total = filled.reduce((sum, indices) => sum + indices.length, 0)
+    let done = 0
+
+    const result: ColumnEmbeddings = []
+    for (const [c, values] of cells.entries()) {
+      const indices = filled[c]!
+      const { embeddings: vectors } = await embedTexts(
+        indices.map((index) => values[index]!),
+        (current, columnTotal) =>
+          onProgress?.(done + (current / columnTotal) * indices.length, total),
+      )
+      const column: (number[] | null)[] = new Array(rows.length).fill(null)
+      indices.forEach((rowIndex, i) => (column[rowIndex] = vectors[i]!))
+      result.push(column)
+      done += indices.length
+    }
+
+    target.value = result
+    source.value = key
+    return target.value
+  }
+
+  // Best matching pair of chunks of a result pair, when its rows were chunked
+  // and at least one of them is longer than one chunk
+  function getBestChunkMatch(pair: SimilarityPair): ChunkMatch | null {
+    const chunksA = (pair.sourceA === 'B' ? rowChunksB : rowChunks).value[pair.rowIndexA]
+    const chunksB = (pair.sourceB === 'B' ? rowChunksB : rowChunks).value[pair.rowIndexB]
+    if (!chunksA || !chunksB || chunksA.texts.length + chunksB.texts.length <= 2) {
+      return null
+    }
+    return findBestChunkMatch(chunksA, chunksB)
+  }
+
+  function getPairLabel(pair: SimilarityPair): PairLabel | undefined {
+    return pairLabels.value[pairKey(pair)]
+  }
+
+  // Label a result pair, or clear its label with null
+  function setPairLabel(pair: SimilarityPair, label: PairLabel | null) {
+    const key = resultsReviewKey.value
+    if (!key) return
+    const labels = { ...(reviewLabelSets.value[key] ?? {}) }
+    if (label) {
+      labels[pairKey(pair)] = label
+    } else {
+      delete labels[pairKey(pair)]
+    }
+    reviewLabelSets.value = { ...reviewLabelSets.value, [key]: labels }
+  }
+
+  function addPairConstraint(constraint: PairConstraint) {
+    pairConstraints.value = [...pairConstraints.value, constraint]
+  }
+
+  function removePairConstraint(index: number) {
+    pairConstraints.value = pairConstraints.value.filter((_, i) => i !== index)
   }
 
   // Run comparison
@@ -142,27 +662,132 @@ export const useComparisonStore = defineStore('comparison', () => {
     comparisonPhase.value = 'embeddings'
 
     try {
-      // Generate text from selected columns for each row
-      const texts = csvRows.value.map((row) => {
-        return comparisonColumns.value.map((col) => row[col] || '').join(' ')
-      })
+      // Inside try so a rejected run resets isComparing (the uploader sets it
+      // before calling)
+      checkPrecomputedEmbeddings()
+
+      const similarityOptions: SimilarityOptions = {
+        topK:
+          resultMode.value === 'topK'
+            ? Math.min(Math.max(1, Math.floor(topK.value) || 1), MAX_TOP_K)
+            : undefined,
+        minScore: minScore.value ?? undefined,
+      }
+      // The uploader disables comparing in this case
+      if (hybridScoring.value && !canBlendLexical.value) {
+        throw new Error('Lexical blending needs top-K results or a minimum score')
+      }
+
+      const onSimilarityProgress = (current: number, total: number) => {
+        const similarityProgress = total > 0 ? (current / total) * 30 : 30
+        comparisonProgress.value = Math.round(70 + similarityProgress)
+      }
+
+      // Only pairs passing the constraints are scored; rows are only sent to
+      // the worker when constraints need them
+      const constraints = activeConstraints.value.map((constraint) => ({ ...constraint }))
+      const job: SimilarityJob = {
+        constraints,
+        rowsA: [],
+        rowsB: null,
+        options: similarityOptions,
+      }
 
-      // Generate embeddings with progress tracking (0-70%)
-      embeddings.value = await generateEmbeddings(texts, (current, total) => {
-        comparisonProgress.value = Math.round((current / total) * 70)
-      })
+      if (embeddingMode.value === 'perColumn') {
+        // Embed every comparison column separately (0-70%), then combine weighted
+        // per-column scores (70-100%)
+        job.weights = comparisonColumns.value.map(getColumnWeight)
+        if (isCrossMode.value) {
+          job.columnsA = toRaw(
+            await ensureColumnEmbeddings('A', (current, total) => {
+              comparisonProgress.value = Math.round((current / total) * 35)
+            }),
+          )
+          job.columnsB = toRaw(
+            await ensureColumnEmbeddings('B', (current, total) => {
+              comparisonProgress.value = Math.round(35 + (current / total) * 35)
+            }),
+          )
+        } else {
+          job.columnsA = toRaw(
+            await ensureColumnEmbeddings('A', (current, total) => {
+              comparisonProgress.value = Math.round((current / total) * 70)
+            }),
+          )
+        }
+      } else if (isCrossMode.value) {
+        // Generate embeddings for both files with progress tracking (0-35%, 35-70%)
+        job.embeddingsA = toRaw(
+          await ensureEmbeddings('A', (current, total) => {
+            comparisonProgress.value = Math.round((current / total) * 35)
+          }),
+        )
+        job.embeddingsB = toRaw(
+          await ensureEmbeddings('B', (current, total) => {
+            comparisonProgress.value = Math.round(35 + (current / total) * 35)
+          }),
+        )
+      } else {
+        // Generate embeddings with progress tracking (0-70%)
+        job.embeddingsA = toRaw(
+          await ensureEmbeddings('A', (current, total) => {
+            comparisonProgress.value = Math.round((current / total) * 70)
+          }),
+        )
+      }
 
-      // Calculate pairwise similarities (70-100%)
+      // Joined embeddings skip empty rows, so constraints get the embedded rows
+      // in embedding order; per-column embeddings cover every row
+      const isJoined = embeddingMode.value === 'joined'
+      if (constraints.length > 0) {
+        const rowsA = toRaw(csvRows.value)
+        const rowsB = toRaw(csvRowsB.value)
+        job.rowsA = isJoined ? embeddingRowIndices.value.map((index) => rowsA[index]!) : rowsA
+        if (isCrossMode.value) {
+          job.rowsB = isJoined ? embeddingRowIndicesB.value.map((index) => rowsB[index]!) : rowsB
+        }
+      }
+
+      // Score pairs in the worker (70-100%): A x B pairs in cross mode
       comparisonPhase.value = 'similarity'
-      similarityResults.value = await calculatePairwiseSimilarities(
-        embeddings.value,
-        true,
-        (current, total) => {
-          const similarityProgress = (current / total) * 30
-          comparisonProgress.value = Math.round(70 + similarityProgress)
-        },
+      let results = await runWorkerJob('similarity', job, onSimilarityProgress)
+      if (isJoined) {
+        results = remapPairRows(
+          results,
+          embeddingRowIndices.value,
+          isCrossMode.value ? embeddingRowIndicesB.value : null,
+        )
+      }
+
+      // Re-rank the retrieved pairs by the blended embedding + lexical score
+      if (hybridScoring.value) {
+        comparisonPhase.value = 'lexical'
+        comparisonProgress.value = 0
+        results = await runWorkerJob(
+          'lexical',
+          {
+            pairs: results,
+            textsA: buildComparisonTexts('A'),
+            textsB: isCrossMode.value ? buildComparisonTexts('B') : null,
+            weights: { ...hybridWeights.value },
+          },
+          (current, total) => {
+            comparisonProgress.value = total > 0 ? Math.round((current / total) * 100) : 100
+          },
+        )
+      }
+
+      similarityResults.value = results
+      resultsPreprocessing.value = describePreprocessing(preprocessing.value)
+      scoreThreshold.value = null
+      resultsReviewKey.value = JSON.stringify(
+        isCrossMode.value
+          ? [fileName.value, comparisonColumns.value, fileNameB.value, comparisonColumnsB.value]
+          : [fileName.value, comparisonColumns.value],
       )
     } catch (error) {
+      // Cancelled runs leave the previous results in place
+      if (isCancelledError(error)) return
       throw new Error(error instanceof Error ? error.message : 'Comparison failed')
     } finally {
       isComparing.value = false
@@ -171,6 +796,11 @@ export const useComparisonStore = defineStore('comparison', () => {
     }
   }
 
+  // Stop a running comparison; runComparison resets the progress state
+  function cancelComparison() {
+    if (isComparing.value) cancelWorkerJobs('comparison')
+  }
+
   // Reset all data
   function reset() {
     csvHeaders.value = []
@@ -179,10 +809,44 @@ export const useComparisonStore = defineStore('comparison', () => {
     sheetName.value = null
     comparisonColumns.value = []
     displayColumns.value = []
+    textTemplate.value = null
     embeddings.value = []
+    rowChunks.value = []
+    columnEmbeddings.value = []
+    precomputedEmbeddings.value = null
+    csvHeadersB.value = []
+    csvRowsB.value = []
+    fileNameB.value = null
+    sheetNameB.value = null
+    comparisonColumnsB.value = []
+    displayColumnsB.value = []
+    textTemplateB.value = null
+    embeddingsB.value = []
+    rowChunksB.value = []
+    columnEmbeddingsB.value = []
+    precomputedEmbeddingsB.value = null
     similarityResults.value = []
   }
 
+  // Switch back to the default model when the selected custom model is removed
+  watch(availableModels, (list) => {
+    if (!list.some((model) => model.id === selectedModel.value)) {
+      changeModel(DEFAULT_MODEL)
+    }
+  })
+
+  // Saving any model's backend settings restarts the workers: load the
+  // selected model again so loadedBackend is current. Embeddings made with
+  // other weights no longer match the source key.
+  watch(
+    () => models.backendSettings,
+    () => {
+      isModelReady.value = false
+      loadedBackend.value = null
+      loadModel()
+    },
+  )
+
   // Start loading model on store creation
   loadModel()
 
@@ -192,35 +856,101 @@ export const useComparisonStore = defineStore('comparison', () => {
     isModelLoading,
     isModelReady,
     modelError,
+    loadedBackend,
+    batchSize,
+    comparisonMode,
+    embeddingMode,
+    columnWeights,
+    emptyRowPolicy,
+    embeddingRowIndices,
+    embeddingRowIndicesB,
+    chunking,
+    rowChunks,
+    rowChunksB,
     csvHeaders,
     csvRows,
     fileName,
     sheetName,
+    csvHeadersB,
+    csvRowsB,
+    fileNameB,
+    sheetNameB,
     comparisonColumns,
     displayColumns,
+    comparisonColumnsB,
+    displayColumnsB,
+    textTemplate,
+    textTemplateB,
+    preprocessing,
     embeddings,
+    embeddingsB,
+    precomputedEmbeddings,
+    precomputedEmbeddingsB,
     similarityResults,
+    resultsPreprocessing,
     isComparing,
     comparisonProgress,
     comparisonPhase,
+    resultMode,
+    topK,
+    minScore,
+    pairConstraints,
+    hybridScoring,
+    hybridWeights,
+    reviewLabelSets,
+    groupThreshold,
+    groupingMode,
+    survivorRule,
     maxDisplayRows,
+    scoreThreshold,
 
     // Constants
-    AVAILABLE_MODELS,
+    MAX_BATCH_SIZE,
+    MAX_TOP_K,
 
     // Computed
+    availableModels,
+    modelDescriptor,
+    isCrossMode,
     hasData,
+    hasDataB,
+    hasMatchingColumns,
+    emptyRowCount,
+    emptyRowCountB,
     canCompare,
+    canBlendLexical,
+    activeConstraints,
+    pairLabels,
+    thresholdedResults,
+    scoreBandCutoffs,
     displayedResults,
+    duplicateGroups,
 
     // Actions
     loadModel,
     changeModel,
+    setComparisonMode,
     loadFile,
     loadCSV,
     setComparisonColumns,
+    setTextTemplate,
     setDisplayColumns,
+    getRow,
+    getComparisonText,
+    getRawComparisonText,
+    getColumnWeight,
+    setColumnWeight,
+    getBestChunkMatch,
+    getPairLabel,
+    setPairLabel,
+    addPairConstraint,
+    removePairConstraint,
+    ensureEmbeddings,
+    importEmbeddingsColumn,
+    importEmbeddingsFile,
+    setPrecomputedEmbeddings,
     runComparison,
+    cancelComparison,
     reset,
   }
 })
@@ -0,0 +1,174 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import {
+  MODEL_REGISTRY,
+  getCustomModels,
+  removeCustomModel,
+  saveCustomModel,
+  type ModelDescriptor,
+  type ModelName,
+} from '@/utils/models'
+import {
+  deleteLocalModelFiles,
+  relativeModelPath,
+  saveLocalModelFiles,
+  validateModelFolder,
+} from '@/utils/localModels'
+import {
+  getAllBackendSettings,
+  saveBackendSettings,
+  type BackendSettings,
+} from '@/utils/backendSettings'
+import type { BenchmarkResult } from '@/utils/benchmark'
+import {
+  cancelWorkerJobs,
+  isCancelledError,
+  restartWorker,
+  runWorkerJob,
+} from '@/utils/computeWorker'
+
+// Built-in and user-added embedding models and their backend settings, shared
+// by the comparison, search and topic views
+export const useModelsStore = defineStore('models', () => {
+  // State
+  const customModels = ref<ModelDescriptor[]>(getCustomModels())
+  const isSaving = ref(false)
+  // Device, dtype and WASM threads per model (defaults when missing)
+  const backendSettings = ref<Record<ModelName, BackendSettings>>(getAllBackendSettings())
+  const benchmarkResults = ref<BenchmarkResult[]>([])
+  const isBenchmarking = ref(false)
+  // Setup being measured (1-based) out of the setups of the run
+  const benchmarkStep = ref(0)
+  const benchmarkTotal = ref(0)
+
+  // Computed
+  const availableModels = computed(() => [...MODEL_REGISTRY, ...customModels.value])
+
+  // Actions
+
+  // Add a custom model; `files` holds the uploaded folder of a local model
+  async function addCustomModel(descriptor: ModelDescriptor, files: File[] = []) {
+    if (!descriptor.id.trim()) {
+      throw new Error('Enter a model ID')
+    }
+    if (descriptor.source === 'host' && !/^https?:\/\//.test(descriptor.host ?? '')) {
+      throw new Error('Enter the http(s) URL of the model host')
+    }
+    if (descriptor.provider === 'openai') {
+      if (!/^https?:\/\//.test(descriptor.host ?? '')) {
+        throw new Error('Enter the http(s) base URL of the embedding server')
+      }
+      if (!descriptor.endpoint?.model.trim()) throw new Error('Enter the model name')
+      if (!(descriptor.endpoint.batchSize >= 1)) throw new Error('Batch size must be at least 1')
+    }
+    if (descriptor.source === 'local') {
+      const folderError = validateModelFolder(files.map(relativeModelPath))
+      if (folderError) throw new Error(folderError)
+    }
+
+    isSaving.value = true
+    try {
+      if (descriptor.source === 'local') {
+        await saveLocalModelFiles(descriptor.id, files)
+      }
+      saveCustomModel(descriptor)
+      customModels.value = getCustomModels()
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to add model')
+    } finally {
+      isSaving.value = false
+    }
+  }
+
+  async function removeModel(id: ModelName) {
+    const model = customModels.value.find((entry) => entry.id === id)
+    if (!model) return
+    removeCustomModel(id)
+    customModels.value = getCustomModels()
+    if (model.source === 'local') {
+      try {
+        await deleteLocalModelFiles(id)
+      } catch (error) {
+        console.warn('[Models] Failed to delete model files:', error)
+      }
+    }
+  }
+
+  // Save a model's backend settings. The workers restart so the next job
+  // loads the model with them; the stores reload a selected model themselves.
+  function setBackendSettings(id: ModelName, settings: BackendSettings) {
+    restartWorker()
+    saveBackendSettings(id, settings)
+    backendSettings.value = getAllBackendSettings()
+  }
+
+  // Embed the same sample with every setup, one fresh benchmark worker per
+  // setup so WASM thread counts apply; the comparison and topic workers keep
+  // their models. Failed setups are reported, not thrown.
+  async function runBenchmark(
+    model: ModelName,
+    setups: BackendSettings[],
+    texts: string[],
+    batchSize: number,
+  ) {
+    if (texts.length === 0) {
+      throw new Error('Load a file to benchmark on its rows')
+    }
+
+    isBenchmarking.value = true
+    benchmarkResults.value = []
+    benchmarkTotal.value = setups.length
+    try {
+      for (const [index, settings] of setups.entries()) {
+        benchmarkStep.value = index + 1
+        restartWorker('benchmark')
+        try {
+          const result = await runWorkerJob('benchmark', { model, settings, texts, batchSize })
+          benchmarkResults.value = [...benchmarkResults.value, result]
+        } catch (error) {
+          if (isCancelledError(error)) return
+          benchmarkResults.value = [
+            ...benchmarkResults.value,
+            {
+              settings,
+              backend: null,
+              loadSeconds: 0,
+              rowsPerSecond: 0,
+              error: error instanceof Error ? error.message : 'Benchmark failed',
+            },
+          ]
+        }
+      }
+    } finally {
+      // Free the last setup's model
+      restartWorker('benchmark')
+      isBenchmarking.value = false
+      benchmarkStep.value = 0
+    }
+  }
+
+  function cancelBenchmark() {
+    if (isBenchmarking.value) cancelWorkerJobs('benchmark')
+  }
+
+  return {
+    // State
+    customModels,
+    isSaving,
+    backendSettings,
+    benchmarkResults,
+    isBenchmarking,
+    benchmarkStep,
+    benchmarkTotal,
+
+    // Computed
+    availableModels,
+
+    // Actions
+    addCustomModel,
+    removeModel,
+    setBackendSettings,
+    runBenchmark,
+    cancelBenchmark,
+  }
+})
@@ -0,0 +1,136 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import { useComparisonStore } from '@/stores/comparison'
+import { cancelWorkerJobs, isCancelledError, runWorkerJob } from '@/utils/computeWorker'
+import { cosineSimilarity } from '@/utils/similarity'
+import { preprocessText } from '@/utils/preprocessing'
+
+export interface SearchResult {
+  rowIndex: number
+  score: number
+}
+
+export const useSearchStore = defineStore('search', () => {
+  // Rows, columns, model and embeddings are shared with the comparison store
+  const comparison = useComparisonStore()
+
+  // Query and results
+  const query = ref('')
+  const lastQuery = ref<string | null>(null)
+  const searchResults = ref<SearchResult[]>([])
+  const isSearching = ref(false)
+  const searchProgress = ref(0)
+  const searchPhase = ref<'embeddings' | 'ranking' | ''>('')
+
+  // Display settings
+  const maxDisplayRows = ref(50)
+
+  // Computed
+  const hasSearchableData = computed(
+    () =>
+      comparison.hasData &&
+      (comparison.comparisonColumns.length > 0 || comparison.precomputedEmbeddings !== null) &&
+      comparison.isModelReady,
+  )
+  // Search runs its jobs on the comparison worker, so it waits for a running
+  // comparison rather than share (and cancel) its jobs
+  const canSearch = computed(
+    () =>
+      hasSearchableData.value &&
+      query.value.trim().length > 0 &&
+      !isSearching.value &&
+      !comparison.isComparing,
+  )
+
+  const displayedResults = computed(() => {
+    return searchResults.value.slice(0, maxDisplayRows.value)
+  })
+
+  // Rank uploaded rows by cosine similarity to the query
+  async function runSearch() {
+    const text = query.value.trim()
+    if (!hasSearchableData.value || !text) {
+      throw new Error('Cannot search: missing data, query or model not ready')
+    }
+
+    isSearching.value = true
+    searchProgress.value = 0
+    searchPhase.value = 'embeddings'
+
+    try {
+      // Reuses existing row embeddings; only embeds rows when none match (0-90%)
+      const rowEmbeddings = await comparison.ensureEmbeddings('A', (current, total) => {
+        searchProgress.value = Math.round((current / total) * 90)
+      })
+
+      // The query is cleaned up like the rows it is compared with
+      searchPhase.value = 'ranking'
+      const queryEmbedding = await runWorkerJob('embedQuery', {
+        model: comparison.selectedModel,
+        text: preprocessText(text, comparison.preprocessing),
+      })
+
+      // Imported row embeddings only match queries embedded by the same model
+      const rowDimensions = rowEmbeddings[0]?.length ?? queryEmbedding.length
+      if (rowDimensions !== queryEmbedding.length) {
+        throw new Error(
+          `The rows have ${rowDimensions}-dimensional embeddings but ${comparison.modelDescriptor.label} gives ${queryEmbedding.length}; select the model that produced them`,
+        )
+      }
+
+      // Rows with empty comparison text may have no embedding
+      const rowIndices = comparison.embeddingRowIndices
+      searchResults.value = rowEmbeddings
+        .map((embedding, i) => ({
+          rowIndex: rowIndices[i]!,
+          score: cosineSimilarity(queryEmbedding, embedding),
+        }))
+        .sort((a, b) => b.score - a.score)
+      lastQuery.value = text
+      searchProgress.value = 100
+    } catch (error) {
+      // Cancelled searches leave the previous results in place
+      if (isCancelledError(error)) return
+      throw new Error(error instanceof Error ? error.message : 'Search failed')
+    } finally {
+      isSearching.value = false
+      searchProgress.value = 0
+      searchPhase.value = ''
+    }
+  }
+
+  // Stop a running search, e.g. embedding a large file; runSearch resets the
+  // progress state
+  function cancelSearch() {
+    if (isSearching.value) cancelWorkerJobs('comparison')
+  }
+
+  function clearResults() {
+    searchResults.value = []
+    lastQuery.value = null
+  }
+
+  // Results point into the loaded rows, so drop them when the file changes
+  watch(() => comparison.csvRows, clearResults)
+
+  return {
+    // State
+    query,
+    lastQuery,
+    searchResults,
+    isSearching,
+    searchProgress,
+    searchPhase,
+    maxDisplayRows,
+
+    // Computed
+    hasSearchableData,
+    canSearch,
+    displayedResults,
+
+    // Actions
+    runSearch,
+    cancelSearch,
+    clearResults,
+  }
+})
@@ -1,15 +1,29 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { ref, computed, toRaw, watch } from 'vue'
 import type { CsvRow } from '@/utils/csvParser'
 import { parseCSV } from '@/utils/csvParser'
 import { parseXlsx } from '@/utils/xlsxParser'
+import type { ClusteringMethod } from '@/utils/topicModeling'
+import { DEFAULT_MODEL, getModelDescriptor, type ModelName } from '@/utils/models'
+import { useModelsStore } from '@/stores/models'
+import type { EmbedderBackend } from '@/utils/backendSettings'
+import { cacheVariant } from '@/utils/embeddingCache'
+import { cancelWorkerJobs, isCancelledError, runWorkerJob } from '@/utils/computeWorker'
+import { DEFAULT_CHUNKING, type ChunkingOptions } from '@/utils/chunking'
+import { isBlankText, prepareEmbeddingInput, type EmptyRowPolicy } from '@/utils/emptyRows'
+import { DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE } from '@/utils/batching'
 import {
-  initializeModel,
-  generateEmbeddings,
-  AVAILABLE_MODELS,
-  type ModelName,
-  type ClusteringMethod,
-} from '@/utils/topicModeling'
+  DEFAULT_PREPROCESSING,
+  describePreprocessing,
+  preprocessText,
+  type PreprocessingOptions,
+} from '@/utils/preprocessing'
+import {
+  loadSavedTemplate,
+  renderTemplate,
+  saveTemplate,
+  templateColumns,
+} from '@/utils/textTemplate'
 
 export interface Topic {
   id: number
@@ -21,11 +35,16 @@ export interface Topic {
 }
 
 export const useTopicModelingStore = defineStore('topicModeling', () => {
+  // Built-in and custom models
+  const models = useModelsStore()
+
   // Model state
-  const selectedModel = ref<ModelName>('Xenova/bge-small-en-v1.5')
+  const selectedModel = ref<ModelName>(DEFAULT_MODEL)
   const isModelLoading = ref(false)
   const isModelReady = ref(false)
   const modelError = ref<string | null>(null)
+  // Device, dtype and threads the model actually loaded with
+  const loadedBackend = ref<EmbedderBackend | null>(null)
 
   // File data
   const csvHeaders = ref<string[]>([])
@@ -36,15 +55,27 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
   // Column selections
   const analysisColumns = ref<string[]>([])
   const displayColumns = ref<string[]>([])
+  // Text composition template; null joins the analysis columns with spaces
+  const textTemplate = ref<string | null>(null)
 
   // Topic modeling settings
   const clusteringMethod = ref<ClusteringMethod>('kmeans')
   const numberOfTopics = ref(5)
   const topKeywords = ref(10)
+  const batchSize = ref(DEFAULT_BATCH_SIZE)
+  const emptyRowPolicy = ref<EmptyRowPolicy>('exclude')
+  const chunking = ref<ChunkingOptions>({ ...DEFAULT_CHUNKING })
+  const preprocessing = ref<PreprocessingOptions>(structuredClone(DEFAULT_PREPROCESSING))
 
   // Results
   const embeddings = ref<number[][]>([])
+  // Row index of each embedding (empty rows may be skipped)
+  const embeddingRowIndices = ref<number[]>([])
+  // Loaded weights (or server) the embeddings were made with, see cacheVariant
+  let embeddingsVariant: string | null = null
   const topics = ref<Topic[]>([])
+  // Preprocessing steps the current topics were found with
+  const topicsPreprocessing = ref<string[]>([])
   const isAnalyzing = ref(false)
   const analysisProgress = ref(0)
   const analysisPhase = ref<'embeddings' | 'clustering' | 'keywords' | ''>('')
@@ -53,7 +84,17 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
   const selectedTopicId = ref<number | null>(null)
 
   // Computed
+  const availableModels = computed(() => models.availableModels)
+  // A removed custom model falls back to the default until the watch below
+  // switches models
+  const modelDescriptor = computed(
+    () =>
+      availableModels.value.find((model) => model.id === selectedModel.value) ??
+      getModelDescriptor(DEFAULT_MODEL),
+  )
   const hasData = computed(() => csvRows.value.length > 0)
+  // Rows whose analysis columns are all empty
+  const emptyRowCount = computed(() => buildAnalysisTexts().filter(isBlankText).length)
   const canAnalyze = computed(
     () => hasData.value && analysisColumns.value.length > 0 && isModelReady.value,
   )
@@ -78,7 +119,7 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     modelError.value = null
 
     try {
-      await initializeModel(selectedModel.value)
+      loadedBackend.value = await runWorkerJob('topicLoadModel', { model: selectedModel.value })
       isModelReady.value = true
     } catch (error) {
       modelError.value = error instanceof Error ? error.message : 'Failed to load model'
@@ -92,6 +133,7 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
   async function changeModel(modelName: ModelName) {
     selectedModel.value = modelName
     isModelReady.value = false
+    loadedBackend.value = null
 
     // Clear embeddings and results when model changes
     embeddings.value = []
@@ -125,9 +167,16 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
       // Reset selections and results
       analysisColumns.value = []
       displayColumns.value = []
+      textTemplate.value = null
       embeddings.value = []
       topics.value = []
       selectedTopicId.value = null
+
+      // Bring back the template last used with the same columns
+      const savedTemplate = loadSavedTemplate(parsed.headers)
+      if (savedTemplate !== null) {
+        setTextTemplate(savedTemplate)
+      }
     } catch (error) {
       throw new Error(error instanceof Error ? error.message : 'Failed to parse file')
     }
@@ -142,11 +191,39 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     }
   }
 
+  // Use a text template (null goes back to joining the analysis columns). The
+  // template's columns become the analysis columns, and the template is
+  // remembered for files with the same headers.
+  function setTextTemplate(template: string | null) {
+    textTemplate.value = template
+    saveTemplate(csvHeaders.value, template)
+    if (template !== null) {
+      setAnalysisColumns(
+        templateColumns(template).filter((column) => csvHeaders.value.includes(column)),
+      )
+    }
+  }
+
   // Set display columns
   function setDisplayColumns(columns: string[]) {
     displayColumns.value = columns
   }
 
+  // Analysis text of each row before preprocessing: the rendered template, or
+  // the selected columns joined with spaces
+  function buildRawAnalysisTexts(): string[] {
+    const template = textTemplate.value
+    if (template !== null) {
+      return csvRows.value.map((row) => renderTemplate(template, row))
+    }
+    return csvRows.value.map((row) => analysisColumns.value.map((col) => row[col] || '').join(' '))
+  }
+
+  // Analysis text of each row as it is embedded
+  function buildAnalysisTexts(): string[] {
+    return buildRawAnalysisTexts().map((text) => preprocessText(text, preprocessing.value))
+  }
+
   // Run topic modeling
   async function runTopicModeling() {
     if (!canAnalyze.value) {
@@ -157,32 +234,46 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     analysisProgress.value = 0
 
     try {
-      // Skip embedding generation if already cached
-      if (embeddings.value.length === 0) {
+      // Skip embedding generation if already cached with the loaded weights
+      const variant = cacheVariant(modelDescriptor.value, loadedBackend.value)
+      if (embeddings.value.length === 0 || embeddingsVariant !== variant) {
         analysisPhase.value = 'embeddings'
 
         // Generate text from selected columns for each row
-        const texts = csvRows.value.map((row) => {
-          return analysisColumns.value.map((col) => row[col] || '').join(' ')
-        })
-
-        // Generate embeddings with progress tracking (0-60%)
-        embeddings.value = await generateEmbeddings(
-          texts,
-          selectedModel.value,
-          (current: number, total: number) => {
-            analysisProgress.value = Math.round((current / total) * 60)
-          },
-        )
+        const input = prepareEmbeddingInput(buildAnalysisTexts(), emptyRowPolicy.value)
+
+        // Generate embeddings with progress tracking (0-60%); long texts are
+        // embedded in chunks and pooled when chunking is enabled
+        const request = {
+          model: selectedModel.value,
+          texts: input.texts,
+          batchSize: batchSize.value,
+        }
+        const onProgress = (current: number, total: number) => {
+          analysisProgress.value = Math.round((current / total) * 60)
+        }
+        embeddings.value = chunking.value.enabled
+          ? (
+              await runWorkerJob(
+                'topicEmbedChunked',
+                { ...request, chunking: { ...chunking.value } },
+                onProgress,
+              )
+            ).embeddings
+          : await runWorkerJob('topicEmbed', request, onProgress)
+        embeddingRowIndices.value = input.rowIndices
+        embeddingsVariant = variant
       }
 
       // Perform clustering (60-90%)
       analysisPhase.value = 'clustering'
-      const { performClustering } = await import('@/utils/topicModeling')
-      const clusters = await performClustering(
-        embeddings.value,
-        numberOfTopics.value,
-        clusteringMethod.value,
+      const clusters = await runWorkerJob(
+        'cluster',
+        {
+          embeddings: toRaw(embeddings.value),
+          k: numberOfTopics.value,
+          method: clusteringMethod.value,
+        },
         (progress: number) => {
           analysisProgress.value = Math.round(60 + progress * 30)
         },
@@ -197,23 +288,31 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
         coherence?: number
       }
       topics.value = (clusters as ClusterResult[]).map((cluster, idx: number) => {
-        const clusterTexts = cluster.documentIndices
+        // Clusters index embeddings; map them back to rows
+        const documentIndices = cluster.documentIndices.map(
+          (i: number) => embeddingRowIndices.value[i]!,
+        )
+        const clusterTexts = documentIndices
           .map((i: number) => csvRows.value[i]?.[analysisColumns.value[0]!])
           .filter((text): text is string => text !== undefined)
+          .map((text) => preprocessText(text, preprocessing.value))
         const keywords = extractTopKeywords(clusterTexts, topKeywords.value)
 
         return {
           id: idx,
           label: `Topic ${idx + 1}`,
           keywords,
-          documentIndices: cluster.documentIndices,
+          documentIndices,
           centroid: cluster.centroid,
           coherence: cluster.coherence,
         }
       })
+      topicsPreprocessing.value = describePreprocessing(preprocessing.value)
 
       analysisProgress.value = 100
     } catch (error) {
+      // Cancelled runs leave the previous topics in place
+      if (isCancelledError(error)) return
       throw new Error(error instanceof Error ? error.message : 'Topic modeling failed')
     } finally {
       isAnalyzing.value = false
@@ -222,6 +321,11 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     }
   }
 
+  // Stop a running analysis; runTopicModeling resets the progress state
+  function cancelTopicModeling() {
+    if (isAnalyzing.value) cancelWorkerJobs('topics')
+  }
+
   // Reset all data
   function reset() {
     csvHeaders.value = []
@@ -230,11 +334,41 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     sheetName.value = null
     analysisColumns.value = []
     displayColumns.value = []
+    textTemplate.value = null
     embeddings.value = []
     topics.value = []
     selectedTopicId.value = null
   }
 
+  // Embeddings depend on the text template, preprocessing, which rows were
+  // skipped and chunking
+  watch(
+    [textTemplate, preprocessing, emptyRowPolicy, chunking],
+    () => {
+      embeddings.value = []
+    },
+    { deep: true },
+  )
+
+  // Switch back to the default model when the selected custom model is removed
+  watch(availableModels, (list) => {
+    if (!list.some((model) => model.id === selectedModel.value)) {
+      changeModel(DEFAULT_MODEL)
+    }
+  })
+
+  // Saving any model's backend settings restarts the workers: load the
+  // selected model again so loadedBackend is current. Embeddings made with
+  // other weights are not reused (see runTopicModeling).
+  watch(
+    () => models.backendSettings,
+    () => {
+      isModelReady.value = false
+      loadedBackend.value = null
+      loadModel()
+    },
+  )
+
   // Start loading model on store creation
   loadModel()
 
@@ -244,27 +378,38 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     isModelLoading,
     isModelReady,
     modelError,
+    loadedBackend,
     csvHeaders,
     csvRows,
     fileName,
     sheetName,
     analysisColumns,
     displayColumns,
+    textTemplate,
     clusteringMethod,
     numberOfTopics,
     topKeywords,
+    batchSize,
+    emptyRowPolicy,
+    chunking,
+    preprocessing,
     embeddings,
+    embeddingRowIndices,
     topics,
+    topicsPreprocessing,
     isAnalyzing,
     analysisProgress,
     analysisPhase,
     selectedTopicId,
 
     // Constants
-    AVAILABLE_MODELS,
+    MAX_BATCH_SIZE,
 
     // Computed
+    availableModels,
+    modelDescriptor,
     hasData,
+    emptyRowCount,
     canAnalyze,
     selectedTopic,
     topicDocuments,
@@ -274,8 +419,12 @@ export const useTopicModelingStore = defineStore('topicModeling', () => {
     changeModel,
     loadFile,
     setAnalysisColumns,
+    setTextTemplate,
     setDisplayColumns,
+    buildRawAnalysisTexts,
+    buildAnalysisTexts,
     runTopicModeling,
+    cancelTopicModeling,
     reset,
   }
 })
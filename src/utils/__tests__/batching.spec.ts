@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { embedInBatches, planBatches } from '../batching'
+import type { Embedder } from '../embedder'
+
+describe('planBatches', () => {
+  it('groups texts of similar length', () => {
+    expect(planBatches([5, 100, 6, 90, 4], 2)).toEqual([[4, 0], [2, 3], [1]])
+  })
+
+  it('cuts batches at the padded token budget', () => {
+    // 3 x 40 tokens fit in 128, a fourth would not
+    expect(planBatches([40, 40, 40, 40, 40], 10, 128)).toEqual([
+      [0, 1, 2],
+      [3, 4],
+    ])
+    // A text over the budget still gets a batch of its own
+    expect(planBatches([500, 1], 10, 128)).toEqual([[1], [0]])
+  })
+})
+
+describe('embedInBatches', () => {
+  it('returns vectors in input order and reports progress', async () => {
+    const calls: string[][] = []
+    const embedder = {
+      tokenizer: null,
+      embedBatch: async (texts: string[]) => {
+        calls.push(texts)
+        return texts.map((text) => [text.length])
+      },
+    } as unknown as Embedder
+    const progress: number[] = []
+
+    const vectors = await embedInBatches(embedder, ['ccc', 'a', 'bb'], 2, (done) =>
+      progress.push(done),
+    )
+
+    expect(vectors).toEqual([[3], [1], [2]])
+    expect(calls).toHaveLength(2)
+    expect(progress).toEqual([2, 3])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { calibrate, resolveGroundTruth, type GroundTruthMapping } from '../calibration'
+import type { SimilarityPair } from '../similarity'
+
+const MAPPING: GroundTruthMapping = {
+  columnA: 'left',
+  columnB: 'right',
+  labelColumn: 'label',
+  idMode: 'rowNumber',
+  keyColumnA: '',
+  keyColumnB: '',
+}
+
+function pair(rowIndexA: number, rowIndexB: number, score: number): SimilarityPair {
+  return { rowIndexA, rowIndexB, sourceA: 'A', sourceB: 'A', score }
+}
+
+const ROWS = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }]
+
+describe('resolveGroundTruth', () => {
+  it('resolves row numbers and reads non-match labels', () => {
+    const truth = resolveGroundTruth(
+      [
+        { left: '1', right: '2', label: 'yes' },
+        { left: '4', right: '3', label: 'No' },
+        { left: '1', right: '9', label: '1' },
+        { left: '2', right: '2', label: '1' },
+        { left: '1', right: '3', label: '' },
+      ],
+      MAPPING,
+      ROWS,
+      null,
+    )
+    expect([...truth.labels]).toEqual([
+      ['A:0|A:1', true],
+      ['A:2|A:3', false],
+    ])
+    expect(truth).toMatchObject({ matches: 1, nonMatches: 1, unresolved: 3 })
+  })
+
+  it('resolves key columns of both datasets', () => {
+    const truth = resolveGroundTruth(
+      [{ left: 'c', right: 'x' }],
+      { ...MAPPING, labelColumn: null, idMode: 'keyColumn', keyColumnA: 'id', keyColumnB: 'key' },
+      ROWS,
+      [{ key: 'y' }, { key: 'x' }],
+    )
+    expect([...truth.labels]).toEqual([['A:2|B:1', true]])
+  })
+})
+
+describe('calibrate', () => {
+  const truth = resolveGroundTruth(
+    [
+      { left: '1', right: '2', label: '1' },
+      { left: '3', right: '4', label: '1' },
+      { left: '1', right: '3', label: '0' },
+      { left: '2', right: '4', label: '1' },
+    ],
+    MAPPING,
+    ROWS,
+    null,
+  )
+
+  it('finds the threshold with the best F1', () => {
+    const result = calibrate(
+      [pair(0, 1, 0.95), pair(1, 0, 0.95), pair(0, 2, 0.9), pair(2, 3, 0.8), pair(0, 3, 0.7)],
+      truth,
+      false,
+    )
+
+    expect(result.points.map((point) => point.threshold)).toEqual([0.95, 0.9, 0.8])
+    expect(result.best).toMatchObject({ threshold: 0.8, truePositives: 2, falsePositives: 1 })
+    expect(result.best!.recall).toBeCloseTo(2 / 3)
+    // Pair 2-4 was never scored
+    expect(result).toMatchObject({ positives: 3, missedPositives: 1 })
+  })
+
+  it('can count unlisted pairs as non-matches', () => {
+    const result = calibrate([pair(0, 1, 0.95), pair(0, 3, 0.7)], truth, true)
+    expect(result.points[result.points.length - 1]).toMatchObject({
+      threshold: 0.7,
+      falsePositives: 1,
+    })
+  })
+})
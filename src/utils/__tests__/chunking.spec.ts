@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  chunkTokenBudget,
+  embedChunked,
+  findBestChunkMatch,
+  poolChunkVectors,
+  splitIntoChunks,
+  type ChunkingOptions,
+} from '../chunking'
+import type { EmbedderTokenizer } from '../embedder'
+
+// One token per word; special tokens wrap the input like [CLS] ... [SEP]
+const VOCABULARY: string[] = ['[CLS]', '[SEP]']
+const wordTokenizer: EmbedderTokenizer = {
+  encode(text, options) {
+    const ids = text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => {
+        if (!VOCABULARY.includes(word)) VOCABULARY.push(word)
+        return VOCABULARY.indexOf(word)
+      })
+    return options?.add_special_tokens === false ? ids : [0, ...ids, 1]
+  },
+  decode(ids) {
+    return ids.map((id) => VOCABULARY[id]).join(' ')
+  },
+}
+
+const OPTIONS: ChunkingOptions = {
+  enabled: true,
+  chunkTokens: 4,
+  overlapTokens: 1,
+  pooling: 'mean',
+}
+
+describe('splitIntoChunks', () => {
+  it('cuts overlapping token windows', () => {
+    expect(splitIntoChunks(wordTokenizer, 'a b c d e f g h i j', OPTIONS)).toEqual([
+      'a b c d',
+      'd e f g',
+      'g h i j',
+    ])
+  })
+
+  it('keeps texts that fit in one chunk as they are', () => {
+    expect(splitIntoChunks(wordTokenizer, 'Short  text', OPTIONS)).toEqual(['Short  text'])
+  })
+
+  it('estimates windows in characters without a tokenizer', () => {
+    // 4 tokens x 4 characters, stepping 3 tokens
+    expect(splitIntoChunks(null, 'x'.repeat(30), OPTIONS).map((chunk) => chunk.length)).toEqual([
+      16, 16, 6,
+    ])
+  })
+})
+
+describe('chunkTokenBudget', () => {
+  it('leaves room for the prefix and the special tokens', () => {
+    expect(chunkTokenBudget(wordTokenizer, 512, '')).toBe(510)
+    expect(chunkTokenBudget(wordTokenizer, 512, 'search_document: ')).toBe(509)
+  })
+
+  it('estimates the prefix from characters without a tokenizer', () => {
+    expect(chunkTokenBudget(null, 8192, 'search_document: ')).toBe(8187)
+    expect(chunkTokenBudget(null, 2, 'a long instruction prefix')).toBe(1)
+  })
+})
+
+describe('poolChunkVectors', () => {
+  it('mean- or max-pools into a unit vector', () => {
+    const vectors = [
+      [1, 0],
+      [0, 1],
+    ]
+    const mean = poolChunkVectors(vectors, 'mean')
+    expect(mean[0]).toBeCloseTo(Math.SQRT1_2)
+    expect(mean[1]).toBeCloseTo(Math.SQRT1_2)
+    expect(
+      poolChunkVectors(
+        [
+          [0.6, -0.8],
+          [-0.6, 0],
+        ],
+        'max',
+      ),
+    ).toEqual([1, 0])
+  })
+})
+
+describe('embedChunked', () => {
+  it('embeds every chunk once and pools them per text', async () => {
+    const embedded: string[] = []
+    const result = await embedChunked(
+      wordTokenizer,
+      ['a b c d e f', 'short'],
+      OPTIONS,
+      async (texts) => {
+        embedded.push(...texts)
+        return texts.map((text) => (text.startsWith('a') ? [1, 0] : [0, 1]))
+      },
+    )
+
+    expect(embedded).toEqual(['a b c d', 'd e f', 'short'])
+    expect(result.chunks.map((row) => row.texts)).toEqual([['a b c d', 'd e f'], ['short']])
+    expect(result.embeddings).toHaveLength(2)
+    expect(result.embeddings[1]).toEqual([0, 1])
+
+    const match = findBestChunkMatch(result.chunks[0]!, result.chunks[1]!)
+    expect(match).toMatchObject({ score: 1, textA: 'd e f', textB: 'short', chunkIndexA: 1 })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { buildDuplicateGroups } from '../duplicateGroups'
+import type { DatasetSide, SimilarityPair } from '../similarity'
+
+function pair(
+  rowIndexA: number,
+  rowIndexB: number,
+  score: number,
+  sourceB: DatasetSide = 'A',
+): SimilarityPair {
+  return { rowIndexA, rowIndexB, sourceA: 'A', sourceB, score }
+}
+
+const members = (groups: ReturnType<typeof buildDuplicateGroups>) =>
+  groups.map((group) => group.members.map((m) => `${m.source}${m.rowIndex}`))
+
+describe('buildDuplicateGroups', () => {
+  // 0-1 and 1-2 match, 0-2 does not: a chain
+  const chain = [pair(0, 1, 0.95), pair(1, 2, 0.9), pair(0, 2, 0.5), pair(3, 4, 0.92)]
+
+  it('merges rows reachable through matches in connected mode', () => {
+    const groups = buildDuplicateGroups(chain, 0.85)
+    expect(members(groups)).toEqual([
+      ['A0', 'A1', 'A2'],
+      ['A3', 'A4'],
+    ])
+    expect(groups.map((group) => group.id)).toEqual([1, 2])
+    expect(groups[0]!.minScore).toBe(0.9)
+    expect(groups[0]!.avgScore).toBeCloseTo(0.925)
+    expect(groups[0]!.pairs).toHaveLength(2)
+  })
+
+  it('only merges fully linked rows in complete mode', () => {
+    const groups = buildDuplicateGroups(chain, 0.85, 'complete')
+    expect(members(groups)).toEqual([
+      ['A0', 'A1'],
+      ['A3', 'A4'],
+    ])
+
+    const triangle = [...chain.slice(0, 2), pair(0, 2, 0.88)]
+    expect(members(buildDuplicateGroups(triangle, 0.85, 'complete'))).toEqual([['A0', 'A1', 'A2']])
+  })
+
+  it('counts a pair listed from both rows once', () => {
+    const topK = [pair(0, 1, 0.9), pair(1, 0, 0.9)]
+    const [group] = buildDuplicateGroups(topK, 0.8)
+    expect(group!.pairs).toHaveLength(1)
+  })
+
+  it('keeps rows of both datasets apart', () => {
+    const groups = buildDuplicateGroups([pair(0, 0, 0.9, 'B'), pair(0, 1, 0.85, 'B')], 0.8)
+    expect(members(groups)).toEqual([['A0', 'B0', 'B1']])
+  })
+
+  it('returns no groups below the threshold', () => {
+    expect(buildDuplicateGroups(chain, 0.99)).toEqual([])
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { cacheVariant } from '../embeddingCache'
+import { getModelDescriptor, type ModelDescriptor } from '../models'
+
+const SERVER_MODEL: ModelDescriptor = {
+  id: 'remote/embedder',
+  provider: 'openai',
+  host: 'http://localhost:11434/v1',
+  endpoint: { model: 'nomic-embed-text', batchSize: 64, maxRetries: 3, requestsPerMinute: 0 },
+  label: 'embedder',
+  pooling: 'mean',
+  documentPrefix: '',
+  queryPrefix: '',
+  maxTokens: 8192,
+  dimensions: 768,
+  recommendedThreshold: 0.8,
+}
+
+describe('cacheVariant', () => {
+  it('keys browser models on the loaded dtype', () => {
+    const model = getModelDescriptor('Xenova/all-MiniLM-L6-v2')
+    const q8 = cacheVariant(model, { device: 'wasm', dtype: 'q8', threads: 1 })
+    const fp32 = cacheVariant(model, { device: 'webgpu', dtype: 'fp32', threads: 1 })
+    expect(q8).toBe('q8')
+    expect(fp32).toBe('fp32')
+  })
+
+  it('keys server models on the server and model name', () => {
+    const variant = cacheVariant(SERVER_MODEL, null)
+    expect(variant).toBe('http://localhost:11434/v1|nomic-embed-text')
+    expect(
+      cacheVariant(
+        { ...SERVER_MODEL, endpoint: { ...SERVER_MODEL.endpoint!, model: 'mxbai-embed-large' } },
+        null,
+      ),
+    ).not.toBe(variant)
+    expect(cacheVariant({ ...SERVER_MODEL, host: 'https://api.example.com/v1' }, null)).not.toBe(
+      variant,
+    )
+  })
+
+  it('has no variant for the hashing model', () => {
+    expect(cacheVariant(getModelDescriptor('hashing/512'), null)).toBeNull()
+  })
+})
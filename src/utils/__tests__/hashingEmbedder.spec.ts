@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { createHashingEmbedder } from '../hashingEmbedder'
+import { cosineSimilarity } from '../similarity'
+
+describe('createHashingEmbedder', () => {
+  it('returns deterministic unit vectors of the configured size', async () => {
+    const embedder = createHashingEmbedder('hashing/64', 64)
+    await embedder.initialize()
+    const [first, second] = await embedder.embedBatch(['Hello world', 'Hello world'])
+
+    expect(first).toHaveLength(64)
+    expect(first).toEqual(second)
+    expect(Math.hypot(...first!)).toBeCloseTo(1, 6)
+  })
+
+  it('scores texts sharing words above unrelated texts', async () => {
+    const embedder = createHashingEmbedder('hashing/512', 512)
+    const [query, similar, unrelated] = await embedder.embedBatch([
+      'invoice number 1234 overdue',
+      'Invoice 1234 is overdue',
+      'the cat sat on the mat',
+    ])
+
+    expect(cosineSimilarity(query!, similar!)).toBeGreaterThan(
+      cosineSimilarity(query!, unrelated!) + 0.3,
+    )
+  })
+
+  it('gives texts without words a stable unit vector', async () => {
+    const embedder = createHashingEmbedder('hashing/16', 16)
+    const [first, second] = await embedder.embedBatch(['--', '--'])
+    expect(first).toEqual(second)
+    expect(Math.hypot(...first!)).toBeCloseTo(1, 6)
+  })
+})
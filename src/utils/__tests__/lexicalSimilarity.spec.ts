@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { applyHybridScores } from '../lexicalSimilarity'
+import type { SimilarityPair } from '../similarity'
+
+// Every lexical measure of one pair of texts
+function computeLexicalScores(a: string, b: string) {
+  const pair: SimilarityPair = { rowIndexA: 0, rowIndexB: 1, sourceA: 'A', sourceB: 'A', score: 1 }
+  const [result] = applyHybridScores([pair], (_side, index) => (index === 0 ? a : b), {
+    semantic: 1,
+    jaccard: 1,
+    ngram: 1,
+    levenshtein: 1,
+  })
+  return result!.lexicalScores!
+}
+
+describe('lexical measures', () => {
+  it('scores identical texts 1 regardless of case and spacing', () => {
+    expect(computeLexicalScores('SKU  12-A', 'sku 12-a')).toEqual({
+      jaccard: 1,
+      ngram: 1,
+      levenshtein: 1,
+    })
+  })
+
+  it('measures token, trigram and edit overlap', () => {
+    const scores = computeLexicalScores('red shirt', 'red shirts')
+    // Tokens {red, shirt} vs {red, shirts}
+    expect(scores.jaccard).toBeCloseTo(1 / 3)
+    expect(scores.levenshtein).toBeCloseTo(0.9)
+    expect(scores.ngram).toBeGreaterThan(0.5)
+    expect(scores.ngram).toBeLessThan(1)
+  })
+
+  it('scores unrelated texts 0', () => {
+    expect(computeLexicalScores('abc', 'xyz')).toEqual({ jaccard: 0, ngram: 0, levenshtein: 0 })
+  })
+})
+
+describe('applyHybridScores', () => {
+  const texts = ['ACME-42 widget', 'acme-42 widget', 'blue gadget']
+  const getText = (_side: string, index: number) => texts[index]!
+
+  it('blends the embedding score with the lexical measures and re-sorts', () => {
+    const pairs: SimilarityPair[] = [
+      { rowIndexA: 0, rowIndexB: 2, sourceA: 'A', sourceB: 'A', score: 0.9 },
+      { rowIndexA: 0, rowIndexB: 1, sourceA: 'A', sourceB: 'A', score: 0.8 },
+    ]
+    const result = applyHybridScores(pairs, getText, {
+      semantic: 0.5,
+      jaccard: 0.5,
+      ngram: 0,
+      levenshtein: 0,
+    })
+
+    expect(result.map((p) => p.rowIndexB)).toEqual([1, 2])
+    expect(result[0]).toMatchObject({
+      score: 0.9,
+      semanticScore: 0.8,
+      lexicalScores: { jaccard: 1 },
+    })
+    expect(result[1]).toMatchObject({
+      score: 0.45,
+      semanticScore: 0.9,
+      lexicalScores: { jaccard: 0 },
+    })
+    // Measures without a weight are not computed
+    expect(result[0]!.lexicalScores).not.toHaveProperty('ngram')
+  })
+
+  it('re-ranks top-K lists within each row', () => {
+    const pairs: SimilarityPair[] = [
+      { rowIndexA: 0, rowIndexB: 2, sourceA: 'A', sourceB: 'A', score: 0.9, rank: 1 },
+      { rowIndexA: 0, rowIndexB: 1, sourceA: 'A', sourceB: 'A', score: 0.8, rank: 2 },
+      { rowIndexA: 1, rowIndexB: 0, sourceA: 'A', sourceB: 'A', score: 0.8, rank: 1 },
+    ]
+    const result = applyHybridScores(pairs, getText, {
+      semantic: 0.5,
+      jaccard: 0,
+      ngram: 0.5,
+      levenshtein: 0,
+    })
+
+    expect(result.map((p) => [p.rowIndexA, p.rowIndexB, p.rank])).toEqual([
+      [0, 1, 1],
+      [0, 2, 2],
+      [1, 0, 1],
+    ])
+  })
+
+  it('reports progress and leaves pairs alone without weights', () => {
+    const pairs: SimilarityPair[] = [
+      { rowIndexA: 0, rowIndexB: 1, sourceA: 'A', sourceB: 'A', score: 0.8 },
+    ]
+    const progress: number[] = []
+    applyHybridScores(pairs, getText, { semantic: 1, jaccard: 1, ngram: 0, levenshtein: 0 }, (c) =>
+      progress.push(c),
+    )
+    expect(progress).toEqual([1])
+
+    const zero = { semantic: 0, jaccard: 0, ngram: 0, levenshtein: 0 }
+    expect(applyHybridScores(pairs, getText, zero)).toBe(pairs)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  getCustomModels,
+  removeCustomModel,
+  saveCustomModel,
+  type ModelDescriptor,
+} from '../models'
+
+const CUSTOM_MODELS_KEY = 'compear:customModels'
+
+function serverModel(id: string, rememberApiKey?: boolean): ModelDescriptor {
+  return {
+    id,
+    provider: 'openai',
+    host: 'https://api.example.com/v1',
+    endpoint: {
+      model: 'text-embedding-3-small',
+      batchSize: 64,
+      maxRetries: 3,
+      requestsPerMinute: 0,
+      apiKey: 'sk-secret',
+      rememberApiKey,
+    },
+    label: id,
+    pooling: 'mean',
+    documentPrefix: '',
+    queryPrefix: '',
+    maxTokens: 8192,
+    dimensions: 1536,
+    recommendedThreshold: 0.5,
+  }
+}
+
+function storedModel(id: string): ModelDescriptor | undefined {
+  const stored = JSON.parse(localStorage.getItem(CUSTOM_MODELS_KEY) ?? '[]') as ModelDescriptor[]
+  return stored.find((model) => model.id === id)
+}
+
+describe('saveCustomModel', () => {
+  beforeEach(() => {
+    getCustomModels().forEach((model) => removeCustomModel(model.id))
+    localStorage.clear()
+  })
+
+  it('keeps API keys out of localStorage by default', () => {
+    saveCustomModel(serverModel('remote/session'))
+
+    expect(storedModel('remote/session')?.endpoint?.model).toBe('text-embedding-3-small')
+    expect(storedModel('remote/session')?.endpoint?.apiKey).toBeUndefined()
+    // Still usable for the rest of the session
+    expect(getCustomModels()[0]?.endpoint?.apiKey).toBe('sk-secret')
+  })
+
+  it('saves the API key when asked to remember it', () => {
+    saveCustomModel(serverModel('remote/remembered', true))
+
+    expect(storedModel('remote/remembered')?.endpoint?.apiKey).toBe('sk-secret')
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { buildPairCandidates, type PairConstraint } from '../pairConstraints'
+import type { CsvRow } from '../csvParser'
+
+function candidatePairs(
+  rowsA: CsvRow[],
+  rowsB: CsvRow[] | null,
+  constraints: PairConstraint[],
+): { total: number; pairs: number[][] } {
+  const candidates = buildPairCandidates(rowsA, rowsB, constraints)
+  const pairs: number[][] = []
+  candidates.forEach((i, j) => pairs.push([i, j]))
+  return { total: candidates.total, pairs: pairs.sort((x, y) => x[0]! - y[0]! || x[1]! - y[1]!) }
+}
+
+const PEOPLE: CsvRow[] = [
+  { city: 'Oslo', source: 'crm', date: '2024-01-01' },
+  { city: 'oslo ', source: 'shop', date: '2024-01-03' },
+  { city: 'Bergen', source: 'crm', date: '2024-01-02' },
+  { city: 'Oslo', source: 'crm', date: '2024-02-01' },
+  { city: '', source: 'shop', date: '2024-01-01' },
+  { city: 'Bergen', source: 'shop', date: 'someday' },
+]
+
+describe('buildPairCandidates', () => {
+  it('visits every pair once without constraints', () => {
+    const { total, pairs } = candidatePairs(PEOPLE.slice(0, 3), null, [])
+    expect(pairs).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ])
+    expect(total).toBe(3)
+  })
+
+  it('only pairs rows sharing a value, ignoring case, spacing and empty values', () => {
+    const { pairs } = candidatePairs(PEOPLE, null, [{ kind: 'sameValue', column: 'city' }])
+    expect(pairs).toEqual([
+      [0, 1],
+      [0, 3],
+      [1, 3],
+      [2, 5],
+    ])
+  })
+
+  it('excludes pairs sharing a value', () => {
+    const { pairs } = candidatePairs(PEOPLE.slice(0, 4), null, [
+      { kind: 'differentValue', column: 'source' },
+    ])
+    expect(pairs).toEqual([
+      [0, 1],
+      [1, 2],
+      [1, 3],
+    ])
+  })
+
+  it('keeps dates within the window and drops unparseable dates', () => {
+    const { total, pairs } = candidatePairs(PEOPLE, null, [
+      { kind: 'dateWithin', column: 'date', days: 2 },
+    ])
+    expect(pairs).toEqual([
+      [0, 1],
+      [0, 2],
+      [0, 4],
+      [1, 2],
+      [1, 4],
+      [2, 4],
+    ])
+    expect(total).toBe(pairs.length)
+  })
+
+  it('combines constraints', () => {
+    const { pairs } = candidatePairs(PEOPLE, null, [
+      { kind: 'sameValue', column: 'city' },
+      { kind: 'dateWithin', column: 'date', days: 7 },
+      { kind: 'differentValue', column: 'source' },
+    ])
+    expect(pairs).toEqual([[0, 1]])
+  })
+
+  it('matches columns of dataset B in cross-file mode', () => {
+    const rowsB: CsvRow[] = [
+      { town: 'OSLO', day: '2024-01-05' },
+      { town: 'Bergen', day: '2024-01-02' },
+      { town: 'Oslo', day: '2023-12-31' },
+    ]
+    const { total, pairs } = candidatePairs(PEOPLE.slice(0, 4), rowsB, [
+      { kind: 'sameValue', column: 'city', columnB: 'town' },
+      { kind: 'dateWithin', column: 'date', columnB: 'day', days: 3 },
+    ])
+    // Row 0 and B row 0 are four days apart
+    expect(pairs).toEqual([
+      [0, 2],
+      [1, 0],
+      [1, 2],
+      [2, 1],
+    ])
+    expect(total).toBe(4)
+  })
+})
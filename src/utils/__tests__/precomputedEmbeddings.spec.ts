@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import {
+  embeddingsByRow,
+  embeddingsToJsonl,
+  embeddingsToNpy,
+  parseVector,
+  vectorsFromColumn,
+  vectorsFromJsonl,
+  vectorsFromNpy,
+} from '../precomputedEmbeddings'
+
+// Hand-built .npy file (format version 1) with the given header and data
+function npyFile(header: string, data: ArrayBufferView): ArrayBuffer {
+  const padded = header.padEnd(Math.ceil((header.length + 11) / 64) * 64 - 11, ' ') + '\n'
+  const bytes = new Uint8Array(10 + padded.length + data.byteLength)
+  bytes.set([0x93, ...'NUMPY'].map((c) => (typeof c === 'number' ? c : c.charCodeAt(0))))
+  bytes[6] = 1
+  new DataView(bytes.buffer).setUint16(8, padded.length, true)
+  bytes.set(new TextEncoder().encode(padded), 10)
+  bytes.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), 10 + padded.length)
+  return bytes.buffer
+}
+
+describe('parseVector', () => {
+  it('reads JSON arrays and separated numbers', () => {
+    expect(parseVector('[0.5, -1, 2e-3]')).toEqual([0.5, -1, 0.002])
+    expect(parseVector('1;2;3')).toEqual([1, 2, 3])
+    expect(parseVector(' 1 2  3 ')).toEqual([1, 2, 3])
+  })
+
+  it('rejects anything that is not a vector', () => {
+    expect(parseVector('')).toBeNull()
+    expect(parseVector('[]')).toBeNull()
+    expect(parseVector('1, two, 3')).toBeNull()
+  })
+})
+
+describe('vectorsFromColumn', () => {
+  it('treats empty cells as rows without a vector', () => {
+    const result = vectorsFromColumn([{ vec: '[1, 0]' }, { vec: '' }, { vec: '0 1' }], 'vec')
+    expect(result).toEqual({
+      origin: 'column "vec"',
+      dimensions: 2,
+      vectors: [[1, 0], null, [0, 1]],
+    })
+  })
+
+  it('reports cells that are not vectors and mismatched dimensions', () => {
+    expect(() => vectorsFromColumn([{ vec: '[1, 0]' }, { vec: 'n/a' }], 'vec')).toThrow(
+      'Row 2 of column "vec" is not a vector: n/a',
+    )
+    expect(() => vectorsFromColumn([{ vec: '[1, 0]' }, { vec: '[1, 0, 0]' }], 'vec')).toThrow(
+      'Row 2 of column "vec" has 3 values, expected 2',
+    )
+  })
+
+  it('needs at least one vector', () => {
+    expect(() => vectorsFromColumn([{ vec: '' }], 'vec')).toThrow('column "vec" has no vectors')
+  })
+})
+
+describe('vectorsFromNpy', () => {
+  it('reads float32 and big-endian float64 arrays', () => {
+    const float32 = npyFile(
+      "{'descr': '<f4', 'fortran_order': False, 'shape': (2, 3), }",
+      new Float32Array([1, 2, 3, 4, 5, 6]),
+    )
+    expect(vectorsFromNpy(float32, 'a.npy', 2).vectors).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ])
+
+    const data = new DataView(new ArrayBuffer(16))
+    data.setFloat64(0, 0.25, false)
+    data.setFloat64(8, -0.5, false)
+    const float64 = npyFile("{'descr': '>f8', 'fortran_order': False, 'shape': (1, 2), }", data)
+    expect(vectorsFromNpy(float64, 'b.npy', 1).vectors).toEqual([[0.25, -0.5]])
+  })
+
+  it('round-trips exported embeddings, NaN rows included', () => {
+    const vectors = [[0.5, 0.25], null, [-1, 0]]
+    const result = vectorsFromNpy(embeddingsToNpy(vectors, 2), 'export.npy', 3)
+    expect(result.vectors).toEqual(vectors)
+    expect(result.dimensions).toBe(2)
+  })
+
+  it('rejects files it cannot read', () => {
+    expect(() => vectorsFromNpy(new ArrayBuffer(16), 'x.npy', 1)).toThrow(
+      'x.npy is not a .npy file',
+    )
+    const ints = npyFile(
+      "{'descr': '<i4', 'fortran_order': False, 'shape': (1, 1), }",
+      new Int32Array([1]),
+    )
+    expect(() => vectorsFromNpy(ints, 'x.npy', 1)).toThrow('must hold float32 or float64')
+    const flat = npyFile(
+      "{'descr': '<f4', 'fortran_order': False, 'shape': (2,), }",
+      new Float32Array([1, 2]),
+    )
+    expect(() => vectorsFromNpy(flat, 'x.npy', 2)).toThrow('must be a 2-D array')
+    const fortran = npyFile(
+      "{'descr': '<f4', 'fortran_order': True, 'shape': (1, 2), }",
+      new Float32Array([1, 2]),
+    )
+    expect(() => vectorsFromNpy(fortran, 'x.npy', 1)).toThrow('Fortran order')
+    const short = npyFile(
+      "{'descr': '<f4', 'fortran_order': False, 'shape': (2, 2), }",
+      new Float32Array([1, 2]),
+    )
+    expect(() => vectorsFromNpy(short, 'x.npy', 2)).toThrow('shorter than its header says')
+  })
+
+  it('checks the row count against the file', () => {
+    const buffer = embeddingsToNpy([[1], [2]], 1)
+    expect(() => vectorsFromNpy(buffer, 'x.npy', 3)).toThrow(
+      'x.npy has 2 vectors but the file has 3 rows',
+    )
+  })
+})
+
+describe('vectorsFromJsonl', () => {
+  it('takes lines in row order without row numbers', () => {
+    const text = '[1, 0]\n\n{"embedding": [0, 1]}\r\n{"vector": [1, 1]}\n'
+    expect(vectorsFromJsonl(text, 'v.jsonl', 3).vectors).toEqual([
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ])
+  })
+
+  it('places lines with row numbers at their row', () => {
+    const text = embeddingsToJsonl([null, [0, 1], [1, 0]], ['a', 'b', 'c'])
+    expect(text.split('\n')[0]).toBe('{"row":2,"key":"b","embedding":[0,1]}')
+    expect(vectorsFromJsonl(text, 'v.jsonl', 3).vectors).toEqual([null, [0, 1], [1, 0]])
+  })
+
+  it('reports bad lines', () => {
+    expect(() => vectorsFromJsonl('[1]\nnot json', 'v.jsonl', 2)).toThrow(
+      'Line 2 of v.jsonl is not valid JSON',
+    )
+    expect(() => vectorsFromJsonl('{"embedding": ["a"]}', 'v.jsonl', 1)).toThrow(
+      'Line 1 of v.jsonl has no embedding array',
+    )
+    expect(() => vectorsFromJsonl('{"row": 4, "embedding": [1]}', 'v.jsonl', 3)).toThrow(
+      'Line 1 of v.jsonl has no row between 1 and 3',
+    )
+    expect(() => vectorsFromJsonl('[1]\n[1, 2]', 'v.jsonl', 2)).toThrow(
+      'Row 2 of v.jsonl has 2 values, expected 1',
+    )
+  })
+})
+
+describe('embeddingsByRow', () => {
+  it('spreads embeddings over the rows they belong to', () => {
+    expect(embeddingsByRow([[1], [2]], [0, 2], 4)).toEqual([[1], null, [2], null])
+  })
+})
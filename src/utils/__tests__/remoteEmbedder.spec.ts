@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createRemoteEmbedder, embeddingsUrl } from '../remoteEmbedder'
+import type { EndpointOptions } from '../remoteEmbedder'
+import type { ModelDescriptor } from '../models'
+
+// A stubbed fetch stands in for the embedding server; fake timers skip the
+// backoff and throttling waits.
+
+const BASE_URL = 'http://localhost:11434/v1'
+
+function serverModel(endpoint: Partial<EndpointOptions> = {}): ModelDescriptor {
+  return {
+    id: 'remote/nomic-embed-text',
+    provider: 'openai',
+    host: BASE_URL,
+    endpoint: {
+      model: 'nomic-embed-text',
+      batchSize: 64,
+      maxRetries: 3,
+      requestsPerMinute: 0,
+      ...endpoint,
+    },
+    label: 'nomic-embed-text',
+    pooling: 'mean',
+    documentPrefix: '',
+    queryPrefix: '',
+    maxTokens: 8192,
+    dimensions: 2,
+    recommendedThreshold: 0.8,
+  }
+}
+
+// OpenAI-style answer; entries are listed in reverse to check ordering by index
+function embeddings(vectors: number[][]): Response {
+  const data = vectors.map((embedding, index) => ({ embedding, index })).reverse()
+  return new Response(JSON.stringify({ data }), { status: 200 })
+}
+
+// One vector per input text: [text length, 0]
+function echoEmbeddings(_url: string, init: RequestInit): Response {
+  const { input } = JSON.parse(init.body as string) as { input: string[] }
+  return embeddings(input.map((text) => [text.length, 0]))
+}
+
+const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  fetchMock.mockReset()
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('embeddingsUrl', () => {
+  it('appends /embeddings to the base URL', () => {
+    expect(embeddingsUrl('http://localhost:8080/v1/')).toBe('http://localhost:8080/v1/embeddings')
+  })
+})
+
+describe('createRemoteEmbedder', () => {
+  it('sends batches and returns unit vectors in input order', async () => {
+    fetchMock.mockImplementation(async (url, init) => echoEmbeddings(url, init))
+    const embedder = createRemoteEmbedder(serverModel({ batchSize: 2, apiKey: 'secret' }))
+
+    const vectors = await embedder.embedBatch(['a', 'bb', 'ccc'])
+
+    expect(vectors).toEqual([
+      [1, 0],
+      [1, 0],
+      [1, 0],
+    ])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toBe(`${BASE_URL}/embeddings`)
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'nomic-embed-text',
+      input: ['a', 'bb'],
+    })
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret')
+  })
+
+  it('reads the vector size from the probe request', async () => {
+    fetchMock.mockResolvedValue(embeddings([[3, 4, 0]]))
+    const embedder = createRemoteEmbedder(serverModel())
+
+    await embedder.initialize()
+
+    expect(embedder.dimensions).toBe(3)
+  })
+
+  it('waits for Retry-After after a 429', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response('slow down', { status: 429, headers: { 'Retry-After': '5' } }),
+      )
+      .mockResolvedValueOnce(embeddings([[0, 2]]))
+    const embedder = createRemoteEmbedder(serverModel())
+
+    const result = embedder.embedBatch(['text'])
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(result).resolves.toEqual([[0, 1]])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('backs off exponentially on 5xx and gives up after the retries', async () => {
+    fetchMock.mockImplementation(async () => new Response('model loading', { status: 503 }))
+    const embedder = createRemoteEmbedder(serverModel({ maxRetries: 2 }))
+
+    const result = expect(embedder.embedBatch(['text'])).rejects.toThrow(
+      `${BASE_URL}/embeddings answered 503: model loading`,
+    )
+    await vi.advanceTimersByTimeAsync(999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    await result
+  })
+
+  it('retries network errors', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(embeddings([[1, 1]]))
+    const embedder = createRemoteEmbedder(serverModel())
+
+    const result = embedder.embedBatch(['text'])
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await expect(result).resolves.toHaveLength(1)
+  })
+
+  it('reports an unreachable server once the retries are used up', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+    const embedder = createRemoteEmbedder(serverModel({ maxRetries: 0 }))
+
+    await expect(embedder.embedBatch(['text'])).rejects.toThrow(
+      `Cannot reach ${BASE_URL}/embeddings: Failed to fetch`,
+    )
+  })
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(new Response('model "nomic" not found', { status: 404 }))
+    const embedder = createRemoteEmbedder(serverModel())
+
+    await expect(embedder.embedBatch(['text'])).rejects.toThrow('answered 404: model "nomic"')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects a response without one embedding per text', async () => {
+    fetchMock.mockResolvedValue(embeddings([[1, 0]]))
+    const embedder = createRemoteEmbedder(serverModel())
+
+    await expect(embedder.embedBatch(['one', 'two'])).rejects.toThrow(
+      'returned 1 embeddings for 2 texts',
+    )
+  })
+
+  it('rejects a response without a data array', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ error: 'oops' }), { status: 200 }))
+    const embedder = createRemoteEmbedder(serverModel())
+
+    await expect(embedder.embedBatch(['one'])).rejects.toThrow('returned 0 embeddings for 1 texts')
+  })
+
+  it('spaces requests out to the rate limit', async () => {
+    fetchMock.mockImplementation(async (url, init) => echoEmbeddings(url, init))
+    const embedder = createRemoteEmbedder(serverModel({ batchSize: 1, requestsPerMinute: 60 }))
+
+    const result = embedder.embedBatch(['a', 'b', 'c'])
+    await vi.advanceTimersByTimeAsync(0)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await expect(result).resolves.toHaveLength(3)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
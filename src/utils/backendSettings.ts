@@ -0,0 +1,98 @@
+import type { ModelName } from './models'
+
+// Per-model ONNX runtime choices for in-browser models: device, weight
+// precision and WASM thread count. Like custom models they are kept in
+// localStorage on the main thread and sent along with every worker job.
+
+// 'auto' uses WebGPU when the browser has an adapter
+export type DevicePreference = 'auto' | 'webgpu' | 'wasm'
+
+// Weight files transformers.js loads: onnx/model.onnx (fp32),
+// model_fp16.onnx, model_quantized.onnx (q8) or model_q4.onnx. 'auto' is fp32
+// on WebGPU and q8 on WASM.
+export type WeightDtype = 'auto' | 'fp32' | 'fp16' | 'q8' | 'q4'
+
+export interface BackendSettings {
+  device: DevicePreference
+  dtype: WeightDtype
+  // Only used on WASM, and only when the page is cross-origin isolated
+  wasmThreads: number
+}
+
+// What a pipeline actually runs on, after 'auto' and fallbacks are resolved
+export interface EmbedderBackend {
+  device: 'webgpu' | 'wasm'
+  dtype: Exclude<WeightDtype, 'auto'>
+  threads: number
+}
+
+export const DEFAULT_BACKEND_SETTINGS: BackendSettings = {
+  device: 'auto',
+  dtype: 'auto',
+  wasmThreads: 1,
+}
+
+export const DEVICE_OPTIONS: { value: DevicePreference; label: string }[] = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'webgpu', label: 'WebGPU' },
+  { value: 'wasm', label: 'WASM (CPU)' },
+]
+
+export const DTYPE_OPTIONS: { value: WeightDtype; label: string }[] = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'fp32', label: 'fp32' },
+  { value: 'fp16', label: 'fp16' },
+  { value: 'q8', label: 'q8' },
+  { value: 'q4', label: 'q4' },
+]
+
+const BACKEND_SETTINGS_KEY = 'compear:backendSettings'
+
+// Settings known to this context: read from localStorage on the main thread,
+// registered per job in the worker
+let backendSettings: Record<ModelName, BackendSettings> = readBackendSettings()
+
+function readBackendSettings(): Record<ModelName, BackendSettings> {
+  if (typeof localStorage === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(BACKEND_SETTINGS_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function getAllBackendSettings(): Record<ModelName, BackendSettings> {
+  return backendSettings
+}
+
+/**
+ * Replace the settings of this context without saving them (used by the
+ * worker)
+ */
+export function registerBackendSettings(settings: Record<ModelName, BackendSettings>) {
+  backendSettings = settings
+}
+
+export function getBackendSettings(model: ModelName): BackendSettings {
+  return { ...DEFAULT_BACKEND_SETTINGS, ...backendSettings[model] }
+}
+
+/**
+ * Set a model's settings and remember them across sessions
+ */
+export function saveBackendSettings(model: ModelName, settings: BackendSettings) {
+  backendSettings = { ...backendSettings, [model]: { ...settings } }
+  try {
+    localStorage.setItem(BACKEND_SETTINGS_KEY, JSON.stringify(backendSettings))
+  } catch (error) {
+    console.warn('[Models] Failed to save backend settings:', error)
+  }
+}
+
+/**
+ * Short description of a loaded backend, e.g. "WASM · q8 · 4 threads"
+ */
+export function describeBackend(backend: EmbedderBackend): string {
+  if (backend.device === 'webgpu') return `WebGPU · ${backend.dtype}`
+  return `WASM · ${backend.dtype} · ${backend.threads} thread${backend.threads === 1 ? '' : 's'}`
+}
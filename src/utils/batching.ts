@@ -0,0 +1,85 @@
+import type { Embedder } from './embedder'
+
+// Batched inference. Texts are grouped by token length so each batch pads to a
+// similar length, then run through the embedder one batch at a time.
+
+export type PoolingStrategy = 'mean' | 'cls' | 'last_token'
+
+// Texts per pipeline call
+export const DEFAULT_BATCH_SIZE = 32
+export const MAX_BATCH_SIZE = 256
+
+// Upper bound on batch size x longest text (in tokens), so a batch of long
+// texts does not allocate a huge padded tensor
+export const MAX_BATCH_TOKENS = 16384
+
+// Rough characters-per-token ratio when no tokenizer is available
+export const CHARS_PER_TOKEN = 4
+
+/**
+ * Group text indices into batches of similar length. Indices are sorted by
+ * length and batches are cut at `batchSize` texts or when the padded size
+ * (texts x longest length) would exceed `maxBatchTokens`.
+ */
+export function planBatches(
+  lengths: number[],
+  batchSize: number,
+  maxBatchTokens: number = MAX_BATCH_TOKENS,
+): number[][] {
+  const order = lengths.map((_, index) => index).sort((a, b) => lengths[a]! - lengths[b]!)
+  const batches: number[][] = []
+  let batch: number[] = []
+
+  for (const index of order) {
+    // Sorted ascending, so the current text is the batch's longest
+    const padded = (batch.length + 1) * Math.max(lengths[index]!, 1)
+    if (batch.length > 0 && (batch.length >= batchSize || padded > maxBatchTokens)) {
+      batches.push(batch)
+      batch = []
+    }
+    batch.push(index)
+  }
+  if (batch.length > 0) batches.push(batch)
+
+  return batches
+}
+
+function countTokens(embedder: Embedder, text: string): number {
+  try {
+    if (embedder.tokenizer) {
+      return embedder.tokenizer.encode(text).length
+    }
+  } catch {
+    // Fall through to the estimate
+  }
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Embed texts in length-sorted batches. Results come back in input order;
+ * `onProgress` reports texts embedded so far.
+ */
+export async function embedInBatches(
+  embedder: Embedder,
+  texts: string[],
+  batchSize: number,
+  onProgress?: (current: number, total: number) => void,
+): Promise<number[][]> {
+  const size = Math.min(Math.max(Math.floor(batchSize) || 1, 1), MAX_BATCH_SIZE)
+  const lengths = texts.map((text) => countTokens(embedder, text))
+  const batches = planBatches(lengths, size)
+  const embeddings: number[][] = new Array(texts.length)
+  let done = 0
+
+  for (const batch of batches) {
+    const vectors = await embedder.embedBatch(batch.map((index) => texts[index]!))
+    batch.forEach((index, row) => {
+      embeddings[index] = vectors[row]!
+    })
+
+    done += batch.length
+    onProgress?.(done, texts.length)
+  }
+
+  return embeddings
+}
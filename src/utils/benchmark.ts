@@ -0,0 +1,52 @@
+import { embedInBatches } from './batching'
+import { createEmbedder } from './embedder'
+import { getModelDescriptor, prefixText, type ModelName } from './models'
+import type { BackendSettings, EmbedderBackend } from './backendSettings'
+
+// Quick throughput check of backend settings: load the model with the given
+// settings, embed a sample of rows and time it. The embedding cache is
+// bypassed so every setup embeds the same texts for real.
+
+export interface BenchmarkResult {
+  settings: BackendSettings
+  // What actually loaded, which differs from the settings after a fallback
+  backend: EmbedderBackend | null
+  loadSeconds: number
+  rowsPerSecond: number
+  // Set when the setup failed to load or run (e.g. missing weight files)
+  error?: string
+}
+
+// Texts embedded before timing, so one-off shader compilation and memory
+// allocation are not counted
+const WARMUP_TEXTS = 4
+
+/**
+ * Load a model with the given settings and measure rows embedded per second
+ */
+export async function benchmarkBackend(
+  model: ModelName,
+  settings: BackendSettings,
+  texts: string[],
+  batchSize: number,
+  onProgress?: (current: number, total: number) => void,
+): Promise<BenchmarkResult> {
+  const embedder = createEmbedder(getModelDescriptor(model), settings)
+  const prefixed = texts.map((text) => prefixText(model, text))
+
+  const loadStart = performance.now()
+  await embedder.initialize()
+  const loadSeconds = (performance.now() - loadStart) / 1000
+
+  await embedder.embedBatch(prefixed.slice(0, WARMUP_TEXTS))
+  const start = performance.now()
+  await embedInBatches(embedder, prefixed, batchSize, onProgress)
+  const seconds = Math.max((performance.now() - start) / 1000, 1e-6)
+
+  return {
+    settings,
+    backend: embedder.backend,
+    loadSeconds,
+    rowsPerSecond: texts.length / seconds,
+  }
+}
@@ -0,0 +1,185 @@
+import type { CsvRow } from './csvParser'
+import type { SimilarityPair } from './similarity'
+import { pairKey, rowPairKey } from './pairReview'
+
+// How the ground-truth file identifies rows: 1-based row numbers of the loaded
+// data, or values of a key column
+export type GroundTruthIdMode = 'rowNumber' | 'keyColumn'
+
+export interface GroundTruthMapping {
+  // Ground-truth columns holding the ids of the two rows of each pair
+  columnA: string
+  columnB: string
+  // Column saying whether the pair matches; null means every listed pair matches
+  labelColumn: string | null
+  idMode: GroundTruthIdMode
+  // Dataset columns the ids refer to (keyColumn mode)
+  keyColumnA: string
+  keyColumnB: string
+}
+
+export interface GroundTruth {
+  // pairKey -> whether the pair is a true match
+  labels: Map<string, boolean>
+  matches: number
+  nonMatches: number
+  // Ground-truth rows whose ids did not resolve to rows of the loaded data
+  unresolved: number
+}
+
+// Label values read as non-match; anything else non-empty is a match
+const NON_MATCH_VALUES = new Set([
+  '0',
+  'false',
+  'no',
+  'n',
+  'non-match',
+  'nonmatch',
+  'non_match',
+  'not a match',
+  'different',
+])
+
+function buildIdLookup(
+  rows: CsvRow[],
+  mapping: GroundTruthMapping,
+  keyColumn: string,
+): (id: string) => number | null {
+  if (mapping.idMode === 'rowNumber') {
+    return (id) => {
+      const rowNumber = Number(id.trim())
+      return Number.isInteger(rowNumber) && rowNumber >= 1 && rowNumber <= rows.length
+        ? rowNumber - 1
+        : null
+    }
+  }
+
+  // First row wins when a key value repeats
+  const index = new Map<string, number>()
+  rows.forEach((row, rowIndex) => {
+    const key = (row[keyColumn] ?? '').trim()
+    if (key && !index.has(key)) index.set(key, rowIndex)
+  })
+  return (id) => index.get(id.trim()) ?? null
+}
+
+/**
+ * Resolve a ground-truth table to labeled row pairs of the loaded data.
+ * Pass `rowsB = null` in single-file mode (both ids refer to dataset A).
+ */
+export function resolveGroundTruth(
+  truthRows: CsvRow[],
+  mapping: GroundTruthMapping,
+  rowsA: CsvRow[],
+  rowsB: CsvRow[] | null,
+): GroundTruth {
+  const sourceB = rowsB ? 'B' : 'A'
+  const lookupA = buildIdLookup(rowsA, mapping, mapping.keyColumnA)
+  const lookupB = buildIdLookup(rowsB ?? rowsA, mapping, mapping.keyColumnB)
+  const labels = new Map<string, boolean>()
+  let unresolved = 0
+
+  for (const row of truthRows) {
+    const indexA = lookupA(row[mapping.columnA] ?? '')
+    const indexB = lookupB(row[mapping.columnB] ?? '')
+    const labelValue = mapping.labelColumn ? (row[mapping.labelColumn] ?? '').trim() : 'match'
+
+    if (indexA === null || indexB === null || !labelValue || (!rowsB && indexA === indexB)) {
+      unresolved++
+      continue
+    }
+
+    // Later rows override earlier ones for the same pair
+    labels.set(
+      rowPairKey('A', indexA, sourceB, indexB),
+      !NON_MATCH_VALUES.has(labelValue.toLowerCase()),
+    )
+  }
+
+  let matches = 0
+  for (const isMatch of labels.values()) {
+    if (isMatch) matches++
+  }
+
+  return { labels, matches, nonMatches: labels.size - matches, unresolved }
+}
+
+export interface CalibrationPoint {
+  threshold: number
+  precision: number
+  recall: number
+  f1: number
+  truePositives: number
+  falsePositives: number
+}
+
+export interface CalibrationResult {
+  // One point per distinct score, highest threshold first
+  points: CalibrationPoint[]
+  best: CalibrationPoint | null
+  // True matches in the ground truth, and how many never appear in the results
+  positives: number
+  missedPositives: number
+}
+
+/**
+ * Precision, recall and F1 of "score >= threshold means match" at every score
+ * in the results. True matches missing from the results (pruned by top-K or a
+ * minimum score) count as false negatives at every threshold. Result pairs not
+ * in the ground truth count as non-matches when `unlistedAreNonMatches`, and
+ * are ignored otherwise.
+ */
+export function calibrate(
+  results: SimilarityPair[],
+  truth: GroundTruth,
+  unlistedAreNonMatches: boolean,
+): CalibrationResult {
+  // Top-K lists a pair under both rows; keep its best score once
+  const scores = new Map<string, number>()
+  for (const pair of results) {
+    const key = pairKey(pair)
+    scores.set(key, Math.max(scores.get(key) ?? -Infinity, pair.score))
+  }
+
+  const scored: { score: number; isMatch: boolean }[] = []
+  let foundPositives = 0
+  for (const [key, score] of scores) {
+    const label = truth.labels.get(key)
+    if (label === undefined && !unlistedAreNonMatches) continue
+    const isMatch = label === true
+    if (isMatch) foundPositives++
+    scored.push({ score, isMatch })
+  }
+  scored.sort((a, b) => b.score - a.score)
+
+  const positives = truth.matches
+  const points: CalibrationPoint[] = []
+  let best: CalibrationPoint | null = null
+  let truePositives = 0
+  let falsePositives = 0
+
+  for (let i = 0; i < scored.length; i++) {
+    const item = scored[i]!
+    if (item.isMatch) truePositives++
+    else falsePositives++
+
+    // Emit once all pairs sharing this score are counted
+    if (i + 1 < scored.length && scored[i + 1]!.score === item.score) continue
+
+    const precision = truePositives / (truePositives + falsePositives)
+    const recall = positives > 0 ? truePositives / positives : 0
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0
+    const point = {
+      threshold: item.score,
+      precision,
+      recall,
+      f1,
+      truePositives,
+      falsePositives,
+    }
+    points.push(point)
+    if (!best || point.f1 > best.f1) best = point
+  }
+
+  return { points, best, positives, missedPositives: positives - foundPositives }
+}
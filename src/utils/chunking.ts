@@ -0,0 +1,188 @@
+// Long-text chunking. Texts longer than the chunk size are split into
+// overlapping token windows, each window is embedded, and the chunk vectors
+// are pooled into one row vector. Without chunking the pipeline silently
+// truncates at the model's maximum length.
+
+import { CHARS_PER_TOKEN } from './batching'
+import type { EmbedderTokenizer } from './embedder'
+
+export type ChunkPooling = 'mean' | 'max'
+
+export interface ChunkingOptions {
+  enabled: boolean
+  // Window size and overlap in tokens (special tokens not included)
+  chunkTokens: number
+  overlapTokens: number
+  pooling: ChunkPooling
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  enabled: false,
+  chunkTokens: 256,
+  overlapTokens: 32,
+  pooling: 'mean',
+}
+
+export const CHUNK_POOLINGS: { value: ChunkPooling; label: string }[] = [
+  { value: 'mean', label: 'Mean of chunks' },
+  { value: 'max', label: 'Max of chunks' },
+]
+
+// Chunk texts and vectors of one row. A row that fits in one chunk shares its
+// vector with the row embedding.
+export interface RowChunks {
+  texts: string[]
+  vectors: number[][]
+}
+
+export interface ChunkedEmbeddings {
+  // One pooled vector per input text
+  embeddings: number[][]
+  chunks: RowChunks[]
+}
+
+export interface ChunkMatch {
+  score: number
+  textA: string
+  textB: string
+  chunkIndexA: number
+  chunkIndexB: number
+}
+
+/**
+ * Split a text into overlapping windows of `chunkTokens` tokens. Chunk text is
+ * decoded from the tokens, so uncased models return it lowercased.
+ */
+export function splitIntoChunks(
+  tokenizer: EmbedderTokenizer | null,
+  text: string,
+  options: ChunkingOptions,
+): string[] {
+  const size = Math.max(Math.floor(options.chunkTokens), 1)
+  const step = Math.max(size - Math.max(Math.floor(options.overlapTokens), 0), 1)
+
+  if (!tokenizer) {
+    // No tokenizer: estimate windows in characters
+    const chars = size * CHARS_PER_TOKEN
+    const charStep = step * CHARS_PER_TOKEN
+    if (text.length <= chars) return [text]
+    const chunks: string[] = []
+    for (let start = 0; start < text.length; start += charStep) {
+      chunks.push(text.slice(start, start + chars))
+      if (start + chars >= text.length) break
+    }
+    return chunks
+  }
+
+  const ids = tokenizer.encode(text, { add_special_tokens: false })
+  if (ids.length <= size) return [text]
+
+  const chunks: string[] = []
+  for (let start = 0; start < ids.length; start += step) {
+    const window = ids.slice(start, start + size)
+    chunks.push(tokenizer.decode(window, { skip_special_tokens: true }))
+    if (start + size >= ids.length) break
+  }
+  return chunks
+}
+
+/**
+ * Largest chunk size, in tokens, that the model reads in full: `maxTokens`
+ * minus the document prefix and the special tokens (such as [CLS] and [SEP])
+ * added around every input. Without a tokenizer the prefix is estimated from
+ * its characters.
+ */
+export function chunkTokenBudget(
+  tokenizer: EmbedderTokenizer | null,
+  maxTokens: number,
+  documentPrefix: string,
+): number {
+  let reserved = Math.ceil(documentPrefix.length / CHARS_PER_TOKEN)
+  if (tokenizer) {
+    // An empty input encodes to just the special tokens
+    const specialTokens = tokenizer.encode('').length
+    const prefixTokens = documentPrefix
+      ? tokenizer.encode(documentPrefix, { add_special_tokens: false }).length
+      : 0
+    reserved = specialTokens + prefixTokens
+  }
+  return Math.max(maxTokens - reserved, 1)
+}
+
+/**
+ * Combine chunk vectors into one unit-length vector
+ */
+export function poolChunkVectors(vectors: number[][], pooling: ChunkPooling): number[] {
+  if (vectors.length === 1) return vectors[0]!
+
+  const dimension = vectors[0]?.length ?? 0
+  const pooled = new Array<number>(dimension).fill(pooling === 'max' ? -Infinity : 0)
+  for (const vector of vectors) {
+    for (let d = 0; d < dimension; d++) {
+      pooled[d] = pooling === 'max' ? Math.max(pooled[d]!, vector[d]!) : pooled[d]! + vector[d]!
+    }
+  }
+
+  const norm = Math.sqrt(pooled.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? pooled.map((value) => value / norm) : pooled
+}
+
+/**
+ * Chunk every text, embed all chunks in one call to `embed` and pool them
+ * per text
+ */
+export async function embedChunked(
+  tokenizer: EmbedderTokenizer | null,
+  texts: string[],
+  options: ChunkingOptions,
+  embed: (
+    texts: string[],
+    onProgress?: (current: number, total: number) => void,
+  ) => Promise<number[][]>,
+  onProgress?: (current: number, total: number) => void,
+): Promise<ChunkedEmbeddings> {
+  const rowTexts = texts.map((text) => splitIntoChunks(tokenizer, text, options))
+  const vectors = await embed(rowTexts.flat(), onProgress)
+
+  const embeddings: number[][] = []
+  const chunks: RowChunks[] = []
+  let offset = 0
+  for (const chunkTexts of rowTexts) {
+    const rowVectors = vectors.slice(offset, offset + chunkTexts.length)
+    offset += chunkTexts.length
+    embeddings.push(poolChunkVectors(rowVectors, options.pooling))
+    chunks.push({ texts: chunkTexts, vectors: rowVectors })
+  }
+
+  return { embeddings, chunks }
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!
+  }
+  return sum
+}
+
+/**
+ * Most similar pair of chunks between two rows (chunk vectors are unit length)
+ */
+export function findBestChunkMatch(chunksA: RowChunks, chunksB: RowChunks): ChunkMatch | null {
+  let best: ChunkMatch | null = null
+  chunksA.vectors.forEach((vectorA, i) => {
+    chunksB.vectors.forEach((vectorB, j) => {
+      const score = dot(vectorA, vectorB)
+      if (!best || score > best.score) {
+        best = {
+          score,
+          textA: chunksA.texts[i]!,
+          textB: chunksB.texts[j]!,
+          chunkIndexA: i,
+          chunkIndexB: j,
+        }
+      }
+    })
+  })
+  return best
+}
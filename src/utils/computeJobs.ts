@@ -0,0 +1,134 @@
+// Job handlers of the compute worker, kept apart from its message loop so the
+// same jobs can run in-process (see runWorkerJob). Protocol types live in
+// computeWorker.ts.
+
+import {
+  initializeModel,
+  generateEmbedding,
+  generateEmbeddings,
+  generateChunkedEmbeddings,
+  getLoadedBackend,
+} from './embeddings'
+import {
+  initializeModel as initializeTopicModel,
+  generateEmbeddings as generateTopicEmbeddings,
+  generateChunkedEmbeddings as generateTopicChunkedEmbeddings,
+  performClustering,
+  getLoadedBackend as getLoadedTopicBackend,
+} from './topicModeling'
+import { benchmarkBackend } from './benchmark'
+import {
+  calculateCandidateSimilarities,
+  calculateCrossSimilarities,
+  calculatePairwiseSimilarities,
+  calculateWeightedColumnSimilarities,
+  type SimilarityPair,
+} from './similarity'
+import { buildPairCandidates } from './pairConstraints'
+import { applyHybridScores } from './lexicalSimilarity'
+import type { LexicalJob, SimilarityJob, WorkerJobs, WorkerRequest } from './computeWorker'
+
+export type ProgressCallback = (current: number, total: number) => void
+
+// Same scoring choices runComparison made on the main thread: weighted
+// per-column scores, constraint candidates, or every pair
+async function scoreSimilarities(
+  job: SimilarityJob,
+  onProgress: ProgressCallback,
+): Promise<SimilarityPair[]> {
+  const candidates =
+    job.constraints.length > 0
+      ? buildPairCandidates(job.rowsA, job.rowsB, job.constraints)
+      : undefined
+
+  if (job.columnsA) {
+    return calculateWeightedColumnSimilarities(
+      job.columnsA,
+      job.columnsB ?? null,
+      job.weights ?? [],
+      onProgress,
+      job.options,
+      candidates,
+    )
+  }
+
+  const embeddingsA = job.embeddingsA ?? []
+  const embeddingsB = job.embeddingsB ?? null
+  if (candidates) {
+    return calculateCandidateSimilarities(
+      embeddingsA,
+      embeddingsB,
+      candidates,
+      onProgress,
+      job.options,
+    )
+  }
+  return embeddingsB
+    ? calculateCrossSimilarities(embeddingsA, embeddingsB, onProgress, job.options)
+    : calculatePairwiseSimilarities(embeddingsA, onProgress, job.options)
+}
+
+/**
+ * Run one job on the current thread: in the compute worker, or on the main
+ * thread where workers are unavailable
+ */
+export async function runComputeJob(
+  request: WorkerRequest,
+  onProgress: ProgressCallback,
+): Promise<unknown> {
+  switch (request.type) {
+    case 'loadModel': {
+      const { model } = request.payload as WorkerJobs['loadModel'][0]
+      await initializeModel(model)
+      return getLoadedBackend()
+    }
+    case 'embed': {
+      const { model, texts, batchSize } = request.payload as WorkerJobs['embed'][0]
+      await initializeModel(model)
+      return generateEmbeddings(texts, onProgress, batchSize)
+    }
+    case 'embedChunked': {
+      const { model, texts, batchSize, chunking } = request.payload as WorkerJobs['embedChunked'][0]
+      await initializeModel(model)
+      return generateChunkedEmbeddings(texts, chunking, onProgress, batchSize)
+    }
+    case 'embedQuery': {
+      const { model, text } = request.payload as WorkerJobs['embedQuery'][0]
+      await initializeModel(model)
+      return generateEmbedding(text, 'query')
+    }
+    case 'similarity':
+      return scoreSimilarities(request.payload as SimilarityJob, onProgress)
+    case 'lexical': {
+      const { pairs, textsA, textsB, weights } = request.payload as LexicalJob
+      const getText = (side: 'A' | 'B', index: number) =>
+        (side === 'B' ? (textsB ?? []) : textsA)[index] ?? ''
+      return applyHybridScores(pairs, getText, weights, onProgress)
+    }
+    case 'topicLoadModel': {
+      const { model } = request.payload as WorkerJobs['topicLoadModel'][0]
+      await initializeTopicModel(model)
+      return getLoadedTopicBackend()
+    }
+    case 'topicEmbed': {
+      const { model, texts, batchSize } = request.payload as WorkerJobs['topicEmbed'][0]
+      return generateTopicEmbeddings(texts, model, onProgress, batchSize)
+    }
+    case 'topicEmbedChunked': {
+      const { model, texts, batchSize, chunking } =
+        request.payload as WorkerJobs['topicEmbedChunked'][0]
+      return generateTopicChunkedEmbeddings(texts, model, chunking, onProgress, batchSize)
+    }
+    case 'cluster': {
+      const { embeddings, k, method } = request.payload as WorkerJobs['cluster'][0]
+      // Clustering reports a 0-1 fraction
+      return performClustering(embeddings, k, method, (progress) => onProgress(progress, 1))
+    }
+    case 'benchmark': {
+      const { model, settings, texts, batchSize } = request.payload as WorkerJobs['benchmark'][0]
+      return benchmarkBackend(model, settings, texts, batchSize, onProgress)
+    }
+    default:
+      throw new Error(`Unknown job type: ${request.type}`)
+  }
+}
@@ -0,0 +1,226 @@
+// Main-thread client of the compute workers. Embedding, similarity scoring and
+// clustering run in src/workers/compute.worker.ts so long CPU loops do not
+// freeze the UI. Comparison, topic and benchmark jobs each get their own
+// worker, so cancelling one (which terminates its worker, the only way to
+// stop a synchronous loop) leaves the others running; the next job on that
+// channel starts a fresh worker, which reloads the model. Where Worker is not
+// defined (the vitest jsdom environment) jobs run in-process instead and cannot be
+// cancelled.
+
+import type { CsvRow } from './csvParser'
+import type { PairConstraint } from './pairConstraints'
+import type { ColumnEmbeddings, SimilarityOptions, SimilarityPair } from './similarity'
+import { getCustomModels, type ModelDescriptor, type ModelName } from './models'
+import type { ChunkedEmbeddings, ChunkingOptions } from './chunking'
+import type { Cluster, ClusteringMethod } from './topicModeling'
+import {
+  getAllBackendSettings,
+  type BackendSettings,
+  type EmbedderBackend,
+} from './backendSettings'
+import type { BenchmarkResult } from './benchmark'
+import type { HybridWeights } from './lexicalSimilarity'
+
+// Scoring input. Pass either joined `embeddingsA/B` or per-column
+// `columnsA/B` with `weights`; rows are only needed for constraints.
+export interface SimilarityJob {
+  embeddingsA?: number[][]
+  embeddingsB?: number[][] | null
+  columnsA?: ColumnEmbeddings
+  columnsB?: ColumnEmbeddings | null
+  weights?: number[]
+  constraints: PairConstraint[]
+  rowsA: CsvRow[]
+  rowsB: CsvRow[] | null
+  options: SimilarityOptions
+}
+
+// Hybrid re-scoring of retrieved pairs. Texts are the comparison texts of
+// every file row, indexed like the pairs' row indices.
+export interface LexicalJob {
+  pairs: SimilarityPair[]
+  textsA: string[]
+  textsB: string[] | null
+  weights: HybridWeights
+}
+
+// Request type -> [payload, result]
+export interface WorkerJobs {
+  loadModel: [{ model: ModelName }, EmbedderBackend | null]
+  embed: [{ model: ModelName; texts: string[]; batchSize: number }, number[][]]
+  embedChunked: [
+    { model: ModelName; texts: string[]; batchSize: number; chunking: ChunkingOptions },
+    ChunkedEmbeddings,
+  ]
+  embedQuery: [{ model: ModelName; text: string }, number[]]
+  similarity: [SimilarityJob, SimilarityPair[]]
+  lexical: [LexicalJob, SimilarityPair[]]
+  topicLoadModel: [{ model: ModelName }, EmbedderBackend | null]
+  topicEmbed: [{ model: ModelName; texts: string[]; batchSize: number }, number[][]]
+  topicEmbedChunked: [
+    { model: ModelName; texts: string[]; batchSize: number; chunking: ChunkingOptions },
+    ChunkedEmbeddings,
+  ]
+  cluster: [{ embeddings: number[][]; k: number; method: ClusteringMethod }, Cluster[]]
+  benchmark: [
+    { model: ModelName; settings: BackendSettings; texts: string[]; batchSize: number },
+    BenchmarkResult,
+  ]
+}
+
+export type WorkerJobType = keyof WorkerJobs
+
+// Workers that run independently of each other
+export type WorkerChannel = 'comparison' | 'topics' | 'benchmark'
+
+// Each store's jobs share a worker, and with it the model they loaded.
+// Search queries use the comparison model.
+const JOB_CHANNELS: Record<WorkerJobType, WorkerChannel> = {
+  loadModel: 'comparison',
+  embed: 'comparison',
+  embedChunked: 'comparison',
+  embedQuery: 'comparison',
+  similarity: 'comparison',
+  lexical: 'comparison',
+  topicLoadModel: 'topics',
+  topicEmbed: 'topics',
+  topicEmbedChunked: 'topics',
+  cluster: 'topics',
+  benchmark: 'benchmark',
+}
+
+export interface WorkerRequest {
+  id: number
+  type: WorkerJobType
+  payload: unknown
+  // The worker has no localStorage, so custom models and backend settings
+  // travel with every job
+  customModels: ModelDescriptor[]
+  backendSettings: Record<ModelName, BackendSettings>
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; current: number; total: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string }
+
+interface PendingJob {
+  resolve: (result: unknown) => void
+  reject: (error: unknown) => void
+  onProgress?: (current: number, total: number) => void
+}
+
+interface Channel {
+  worker: Worker
+  pendingJobs: Map<number, PendingJob>
+}
+
+const channels = new Map<WorkerChannel, Channel>()
+let nextJobId = 1
+
+function getChannel(name: WorkerChannel): Channel {
+  let channel = channels.get(name)
+  if (!channel) {
+    const worker = new Worker(new URL('../workers/compute.worker.ts', import.meta.url), {
+      type: 'module',
+    })
+    const pendingJobs = new Map<number, PendingJob>()
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data
+      const job = pendingJobs.get(message.id)
+      if (!job) return
+
+      if (message.type === 'progress') {
+        job.onProgress?.(message.current, message.total)
+        return
+      }
+      pendingJobs.delete(message.id)
+      if (message.type === 'result') {
+        job.resolve(message.result)
+      } else {
+        job.reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      console.error(`[ComputeWorker] ${name} worker error:`, event.message)
+      rejectAll(pendingJobs, new Error(event.message || 'Compute worker failed'))
+    }
+    channel = { worker, pendingJobs }
+    channels.set(name, channel)
+  }
+  return channel
+}
+
+function rejectAll(pendingJobs: Map<number, PendingJob>, error: unknown) {
+  for (const job of pendingJobs.values()) {
+    job.reject(error)
+  }
+  pendingJobs.clear()
+}
+
+/**
+ * Run a job in its channel's worker. `onProgress` receives the worker's
+ * progress messages.
+ */
+export function runWorkerJob<T extends WorkerJobType>(
+  type: T,
+  payload: WorkerJobs[T][0],
+  onProgress?: (current: number, total: number) => void,
+): Promise<WorkerJobs[T][1]> {
+  const request: WorkerRequest = {
+    id: nextJobId++,
+    type,
+    payload,
+    customModels: getCustomModels(),
+    backendSettings: getAllBackendSettings(),
+  }
+  if (typeof Worker === 'undefined') {
+    return import('./computeJobs').then(
+      ({ runComputeJob }) =>
+        runComputeJob(request, onProgress ?? (() => {})) as Promise<WorkerJobs[T][1]>,
+    )
+  }
+  const channel = getChannel(JOB_CHANNELS[type])
+  return new Promise((resolve, reject) => {
+    channel.pendingJobs.set(request.id, {
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      onProgress,
+    })
+    channel.worker.postMessage(request)
+  })
+}
+
+/**
+ * Stop every running job of one channel. Its pending promises reject with an
+ * `AbortError`; other channels keep running.
+ */
+export function cancelWorkerJobs(name: WorkerChannel) {
+  const channel = channels.get(name)
+  if (!channel) return
+  channel.worker.terminate()
+  channels.delete(name)
+  rejectAll(channel.pendingJobs, new DOMException('Cancelled', 'AbortError'))
+  console.log(`[ComputeWorker] ${name} jobs cancelled`)
+}
+
+/**
+ * Start fresh workers for the next jobs of the given channels (all by
+ * default). The WASM runtime reads its thread count only once, so changed
+ * backend settings need new workers; the next job reloads the model. Throws
+ * while any of those channels has jobs running.
+ */
+export function restartWorker(...names: WorkerChannel[]) {
+  const restarted = names.length > 0 ? names : [...channels.keys()]
+  if (restarted.some((name) => (channels.get(name)?.pendingJobs.size ?? 0) > 0)) {
+    throw new Error('Wait for the running job to finish first')
+  }
+  for (const name of restarted) {
+    channels.get(name)?.worker.terminate()
+    channels.delete(name)
+  }
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
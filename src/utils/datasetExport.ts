@@ -0,0 +1,153 @@
+import type { CsvRow } from './csvParser'
+import type { DuplicateGroup } from './duplicateGroups'
+import type { SimilarityPair } from './similarity'
+
+// How the row kept from each duplicate group is chosen
+export type SurvivorRule = 'first' | 'longestText' | 'mostFilled'
+
+export const SURVIVOR_RULES: { value: SurvivorRule; label: string }[] = [
+  { value: 'first', label: 'First occurrence' },
+  { value: 'longestText', label: 'Longest text (comparison columns)' },
+  { value: 'mostFilled', label: 'Most non-empty columns' },
+]
+
+// 'annotated' keeps every row and adds duplicate columns, 'deduplicated' keeps survivors only
+export type DatasetExportMode = 'annotated' | 'deduplicated'
+
+export const ANNOTATION_COLUMNS = [
+  'duplicate_group_id',
+  'is_survivor',
+  'best_match_row',
+  'best_match_score',
+] as const
+
+interface RowAnnotation {
+  groupId: number | null
+  isSurvivor: boolean
+  bestMatchRow: number | null
+  bestMatchScore: number | null
+}
+
+function textLength(row: CsvRow, columns: string[]): number {
+  return columns.reduce((sum, col) => sum + (row[col]?.trim().length ?? 0), 0)
+}
+
+function filledCount(row: CsvRow, headers: string[]): number {
+  return headers.filter((col) => (row[col]?.trim() ?? '') !== '').length
+}
+
+/**
+ * Pick the surviving row index of a group. Ties go to the earliest row.
+ */
+export function selectSurvivor(
+  rowIndices: number[],
+  rows: CsvRow[],
+  headers: string[],
+  textColumns: string[],
+  rule: SurvivorRule,
+): number {
+  const sorted = [...rowIndices].sort((a, b) => a - b)
+  if (rule === 'first') {
+    return sorted[0]!
+  }
+
+  const measure = (index: number) => {
+    const row = rows[index] ?? {}
+    return rule === 'longestText' ? textLength(row, textColumns) : filledCount(row, headers)
+  }
+
+  let best = sorted[0]!
+  let bestValue = measure(best)
+  for (const index of sorted.slice(1)) {
+    const value = measure(index)
+    if (value > bestValue) {
+      best = index
+      bestValue = value
+    }
+  }
+  return best
+}
+
+/**
+ * Annotate every row of a single-file comparison with its duplicate group, whether it
+ * survives deduplication, and its best-scoring match across all results.
+ */
+function annotateRows(
+  rows: CsvRow[],
+  headers: string[],
+  textColumns: string[],
+  groups: DuplicateGroup[],
+  pairs: SimilarityPair[],
+  rule: SurvivorRule,
+): RowAnnotation[] {
+  const annotations: RowAnnotation[] = rows.map(() => ({
+    groupId: null,
+    isSurvivor: true,
+    bestMatchRow: null,
+    bestMatchScore: null,
+  }))
+
+  for (const group of groups) {
+    const indices = group.members.map((member) => member.rowIndex)
+    const survivor = selectSurvivor(indices, rows, headers, textColumns, rule)
+    for (const index of indices) {
+      const annotation = annotations[index]
+      if (!annotation) continue
+      annotation.groupId = group.id
+      annotation.isSurvivor = index === survivor
+    }
+  }
+
+  const offerMatch = (index: number, other: number, score: number) => {
+    const annotation = annotations[index]
+    if (annotation && (annotation.bestMatchScore === null || score > annotation.bestMatchScore)) {
+      annotation.bestMatchRow = other
+      annotation.bestMatchScore = score
+    }
+  }
+  for (const pair of pairs) {
+    offerMatch(pair.rowIndexA, pair.rowIndexB, pair.score)
+    offerMatch(pair.rowIndexB, pair.rowIndexA, pair.score)
+  }
+
+  return annotations
+}
+
+/**
+ * Build the export table (header row first) for the original rows.
+ * Row numbers in the added columns are 1-based, matching the results table.
+ */
+export function buildDatasetExport(
+  rows: CsvRow[],
+  headers: string[],
+  textColumns: string[],
+  groups: DuplicateGroup[],
+  pairs: SimilarityPair[],
+  rule: SurvivorRule,
+  mode: DatasetExportMode,
+): string[][] {
+  const annotations = annotateRows(rows, headers, textColumns, groups, pairs, rule)
+
+  if (mode === 'deduplicated') {
+    return [
+      [...headers],
+      ...rows
+        .filter((_, index) => annotations[index]!.isSurvivor)
+        .map((row) => headers.map((col) => row[col] ?? '')),
+    ]
+  }
+
+  return [
+    [...headers, ...ANNOTATION_COLUMNS],
+    ...rows.map((row, index) => {
+      const annotation = annotations[index]!
+      return [
+        ...headers.map((col) => row[col] ?? ''),
+        annotation.groupId === null ? '' : String(annotation.groupId),
+        annotation.isSurvivor ? 'true' : 'false',
+        annotation.bestMatchRow === null ? '' : String(annotation.bestMatchRow + 1),
+        annotation.bestMatchScore === null ? '' : annotation.bestMatchScore.toFixed(4),
+      ]
+    }),
+  ]
+}
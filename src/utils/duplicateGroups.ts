@@ -0,0 +1,169 @@
+import type { DatasetSide, SimilarityPair } from './similarity'
+
+// A row of one of the loaded datasets
+export interface RowRef {
+  source: DatasetSide
+  rowIndex: number
+}
+
+export interface DuplicateGroup {
+  id: number
+  members: RowRef[]
+  // Matched pairs (at or above the threshold) between members of the group
+  pairs: SimilarityPair[]
+  minScore: number
+  avgScore: number
+}
+
+// 'connected' merges anything reachable through matched pairs (single-link),
+// 'complete' only merges rows when every pair within the group is a match
+export type GroupingMode = 'connected' | 'complete'
+
+function rowKey(source: DatasetSide, rowIndex: number): string {
+  return `${source}:${rowIndex}`
+}
+
+// Union-find with path compression and union by size
+class DisjointSet {
+  private readonly parent: number[] = []
+  private readonly size: number[] = []
+
+  add(): number {
+    const id = this.parent.length
+    this.parent.push(id)
+    this.size.push(1)
+    return id
+  }
+
+  find(id: number): number {
+    let root = id
+    while (this.parent[root] !== root) {
+      root = this.parent[root]!
+    }
+    while (this.parent[id] !== root) {
+      const next = this.parent[id]!
+      this.parent[id] = root
+      id = next
+    }
+    return root
+  }
+
+  union(a: number, b: number): number {
+    let rootA = this.find(a)
+    let rootB = this.find(b)
+    if (rootA === rootB) return rootA
+    if (this.size[rootA]! < this.size[rootB]!) {
+      ;[rootA, rootB] = [rootB, rootA]
+    }
+    this.parent[rootB] = rootA
+    this.size[rootA]! += this.size[rootB]!
+    return rootA
+  }
+}
+
+/**
+ * Cluster matched pairs into duplicate groups.
+ * Pairs below `threshold` are ignored; top-K results listing a pair from both rows
+ * are counted once. Groups are sorted by size, then by average score.
+ */
+export function buildDuplicateGroups(
+  pairs: SimilarityPair[],
+  threshold: number,
+  mode: GroupingMode = 'connected',
+): DuplicateGroup[] {
+  const nodeIds = new Map<string, number>()
+  const nodes: RowRef[] = []
+  const sets = new DisjointSet()
+
+  const nodeFor = (source: DatasetSide, rowIndex: number) => {
+    const key = rowKey(source, rowIndex)
+    let id = nodeIds.get(key)
+    if (id === undefined) {
+      id = sets.add()
+      nodeIds.set(key, id)
+      nodes.push({ source, rowIndex })
+    }
+    return id
+  }
+
+  // Collect matched edges once per unordered pair of rows
+  const edges = new Map<string, { a: number; b: number; pair: SimilarityPair }>()
+  for (const pair of pairs) {
+    if (pair.score < threshold) continue
+    const a = nodeFor(pair.sourceA, pair.rowIndexA)
+    const b = nodeFor(pair.sourceB, pair.rowIndexB)
+    if (a === b) continue
+    const key = a < b ? `${a},${b}` : `${b},${a}`
+    if (!edges.has(key)) {
+      edges.set(key, { a, b, pair })
+    }
+  }
+
+  const sortedEdges = [...edges.values()].sort((x, y) => y.pair.score - x.pair.score)
+
+  if (mode === 'complete') {
+    // Greedy complete-link: strongest pairs first, merge two groups only if every
+    // cross pair between them is itself a match
+    const members = new Map<number, number[]>()
+    const memberList = (root: number) => members.get(root) ?? [root]
+
+    for (const { a, b } of sortedEdges) {
+      const rootA = sets.find(a)
+      const rootB = sets.find(b)
+      if (rootA === rootB) continue
+
+      const groupA = memberList(rootA)
+      const groupB = memberList(rootB)
+      const fullyLinked = groupA.every((x) =>
+        groupB.every((y) => edges.has(x < y ? `${x},${y}` : `${y},${x}`)),
+      )
+      if (!fullyLinked) continue
+
+      const root = sets.union(rootA, rootB)
+      members.delete(rootA)
+      members.delete(rootB)
+      members.set(root, [...groupA, ...groupB])
+    }
+  } else {
+    for (const { a, b } of sortedEdges) {
+      sets.union(a, b)
+    }
+  }
+
+  // Gather members and in-group pairs per root
+  const groupsByRoot = new Map<number, { members: number[]; pairs: SimilarityPair[] }>()
+  for (let id = 0; id < nodes.length; id++) {
+    const root = sets.find(id)
+    const group = groupsByRoot.get(root) ?? { members: [], pairs: [] }
+    group.members.push(id)
+    groupsByRoot.set(root, group)
+  }
+  for (const { a, b, pair } of sortedEdges) {
+    const root = sets.find(a)
+    if (root === sets.find(b)) {
+      groupsByRoot.get(root)!.pairs.push(pair)
+    }
+  }
+
+  const groups: DuplicateGroup[] = []
+  for (const group of groupsByRoot.values()) {
+    if (group.members.length < 2) continue
+    const scores = group.pairs.map((pair) => pair.score)
+    groups.push({
+      id: 0,
+      members: group.members
+        .map((id) => nodes[id]!)
+        .sort((x, y) => x.source.localeCompare(y.source) || x.rowIndex - y.rowIndex),
+      pairs: group.pairs,
+      minScore: scores.reduce((min, score) => Math.min(min, score), Infinity),
+      avgScore: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    })
+  }
+
+  groups.sort((x, y) => y.members.length - x.members.length || y.avgScore - x.avgScore)
+  groups.forEach((group, index) => {
+    group.id = index + 1
+  })
+
+  return groups
+}
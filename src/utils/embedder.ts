@@ -0,0 +1,49 @@
+import type { ModelDescriptor } from './models'
+import type { BackendSettings, EmbedderBackend } from './backendSettings'
+import { createHashingEmbedder } from './hashingEmbedder'
+import { createPipelineEmbedder } from './pipelineEmbedder'
+import { createRemoteEmbedder } from './remoteEmbedder'
+
+// Embedding backends. embeddings.ts and topicModeling.ts (and so both stores,
+// through the worker jobs) only see this interface; the model descriptor's
+// provider picks the implementation.
+
+// transformers.js feature-extraction pipeline, the deterministic hashing
+// embedder that needs no download, or an OpenAI-compatible embedding server
+export type EmbedderProvider = 'transformers' | 'hashing' | 'openai'
+
+// The tokenizer calls batching and chunking rely on
+export interface EmbedderTokenizer {
+  encode(text: string, options?: { add_special_tokens?: boolean }): number[]
+  decode(ids: number[], options?: { skip_special_tokens?: boolean }): string
+}
+
+export interface Embedder {
+  // Model ID; also keys the embedding cache
+  readonly name: string
+  // Vector length
+  readonly dimensions: number
+  // Counts tokens for batching and cuts chunks; null estimates from characters
+  readonly tokenizer: EmbedderTokenizer | null
+  // ONNX runtime backend in use once initialized; null outside the browser runtime
+  readonly backend: EmbedderBackend | null
+  // Load weights or warm up; call once before the first batch
+  initialize(): Promise<void>
+  // One unit-length vector per text, in input order
+  embedBatch(texts: string[]): Promise<number[][]>
+}
+
+/**
+ * Create the embedder for a model. It still needs `initialize()`. `settings`
+ * overrides the model's saved backend settings (used by the benchmark).
+ */
+export function createEmbedder(descriptor: ModelDescriptor, settings?: BackendSettings): Embedder {
+  switch (descriptor.provider ?? 'transformers') {
+    case 'hashing':
+      return createHashingEmbedder(descriptor.id, descriptor.dimensions)
+    case 'openai':
+      return createRemoteEmbedder(descriptor)
+    default:
+      return createPipelineEmbedder(descriptor, settings)
+  }
+}
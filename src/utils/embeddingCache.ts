@@ -0,0 +1,249 @@
+import type { EmbedderBackend } from './backendSettings'
+import type { ModelDescriptor } from './models'
+
+// Browser-side embedding cache in IndexedDB. Entries are keyed by model,
+// pooling, variant (see cacheVariant) and a SHA-256 hash of the normalized
+// text, so the same text embedded by the same model is never run through
+// inference twice. Any storage error is logged and treated as a cache miss.
+
+const DB_NAME = 'compear-embeddings'
+const DB_VERSION = 1
+const STORE_NAME = 'embeddings'
+const MODEL_INDEX = 'model'
+
+interface CacheEntry {
+  key: string
+  model: string
+  pooling: string
+  vector: Float32Array
+}
+
+export interface CacheModelStats {
+  model: string
+  entries: number
+  // Approximate size of the stored vectors
+  bytes: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function isCacheAvailable(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        store.createIndex(MODEL_INDEX, 'model')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry after a failed open
+    dbPromise.catch(() => (dbPromise = null))
+  }
+  return dbPromise
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Whitespace at the ends and Unicode composition do not change the meaning
+function normalizeText(text: string): string {
+  return text.normalize('NFC').trim()
+}
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * What else decides the vectors of a model id: the loaded weight dtype of
+ * browser models (quantized weights give slightly different vectors), and the
+ * server and model name of server models, which the user can edit while
+ * keeping the id. Null for the hashing model.
+ */
+export function cacheVariant(
+  descriptor: ModelDescriptor,
+  backend: EmbedderBackend | null,
+): string | null {
+  if (descriptor.provider === 'openai') {
+    return `${descriptor.host ?? ''}|${descriptor.endpoint?.model ?? ''}`
+  }
+  return backend?.dtype ?? null
+}
+
+async function cacheKeys(
+  model: string,
+  pooling: string,
+  variant: string | null,
+  texts: string[],
+): Promise<string[]> {
+  const hashes = await Promise.all(texts.map((text) => hashText(normalizeText(text))))
+  const prefix = variant ? `${model}|${pooling}|${variant}` : `${model}|${pooling}`
+  return hashes.map((hash) => `${prefix}|${hash}`)
+}
+
+async function readEntries(keys: string[]): Promise<(number[] | null)[]> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readonly')
+  const store = transaction.objectStore(STORE_NAME)
+  const vectors: (number[] | null)[] = new Array(keys.length).fill(null)
+
+  keys.forEach((key, index) => {
+    const request = store.get(key)
+    request.onsuccess = () => {
+      const entry = request.result as CacheEntry | undefined
+      if (entry) vectors[index] = Array.from(entry.vector)
+    }
+  })
+
+  await transactionDone(transaction)
+  return vectors
+}
+
+async function writeEntries(
+  model: string,
+  pooling: string,
+  keys: string[],
+  vectors: number[][],
+): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const store = transaction.objectStore(STORE_NAME)
+  keys.forEach((key, index) => {
+    const entry: CacheEntry = { key, model, pooling, vector: Float32Array.from(vectors[index]!) }
+    store.put(entry)
+  })
+  await transactionDone(transaction)
+}
+
+/**
+ * Embed texts through the cache: cached vectors are returned as-is and only
+ * the misses are passed to `embed`. New vectors are stored before returning.
+ * `variant` comes from `cacheVariant()`. `onProgress` counts cache hits as
+ * already done.
+ */
+export async function embedWithCache(
+  model: string,
+  pooling: string,
+  variant: string | null,
+  texts: string[],
+  embed: (
+    texts: string[],
+    onProgress?: (current: number, total: number) => void,
+  ) => Promise<number[][]>,
+  onProgress?: (current: number, total: number) => void,
+): Promise<number[][]> {
+  if (!isCacheAvailable() || texts.length === 0) {
+    return embed(texts, onProgress)
+  }
+
+  let keys: string[]
+  let cached: (number[] | null)[]
+  try {
+    keys = await cacheKeys(model, pooling, variant, texts)
+    cached = await readEntries(keys)
+  } catch (error) {
+    console.warn('[EmbeddingCache] Cache lookup failed, embedding everything:', error)
+    return embed(texts, onProgress)
+  }
+
+  const missing = cached.flatMap((vector, index) => (vector ? [] : [index]))
+  const hits = texts.length - missing.length
+  console.log(`[EmbeddingCache] ${hits} of ${texts.length} embeddings served from cache`)
+  onProgress?.(hits, texts.length)
+
+  if (missing.length > 0) {
+    const vectors = await embed(
+      missing.map((index) => texts[index]!),
+      (current) => onProgress?.(hits + current, texts.length),
+    )
+    missing.forEach((index, i) => (cached[index] = vectors[i]!))
+
+    try {
+      await writeEntries(
+        model,
+        pooling,
+        missing.map((index) => keys[index]!),
+        vectors,
+      )
+    } catch (error) {
+      console.warn('[EmbeddingCache] Failed to store embeddings:', error)
+    }
+  }
+
+  return cached as number[][]
+}
+
+/**
+ * Entry count and approximate size per model
+ */
+export async function getCacheStats(): Promise<CacheModelStats[]> {
+  if (!isCacheAvailable()) return []
+
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readonly')
+  const index = transaction.objectStore(STORE_NAME).index(MODEL_INDEX)
+  const counts = new Map<string, number>()
+  const dimensions = new Map<string, number>()
+
+  // Key cursor: counts entries without loading their vectors
+  const cursorRequest = index.openKeyCursor()
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) {
+      // One sample entry per model gives the vector size
+      for (const model of counts.keys()) {
+        const request = index.get(model)
+        request.onsuccess = () => {
+          const entry = request.result as CacheEntry | undefined
+          dimensions.set(model, entry?.vector.length ?? 0)
+        }
+      }
+      return
+    }
+    const model = cursor.key as string
+    counts.set(model, (counts.get(model) ?? 0) + 1)
+    cursor.continue()
+  }
+
+  await transactionDone(transaction)
+  return [...counts].map(([model, entries]) => ({
+    model,
+    entries,
+    bytes: entries * (dimensions.get(model) ?? 0) * Float32Array.BYTES_PER_ELEMENT,
+  }))
+}
+
+/**
+ * Delete the cached embeddings of one model, or of all models
+ */
+export async function clearEmbeddingCache(model?: string): Promise<void> {
+  if (!isCacheAvailable()) return
+
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const store = transaction.objectStore(STORE_NAME)
+  if (model === undefined) {
+    store.clear()
+  } else {
+    const cursorRequest = store.index(MODEL_INDEX).openKeyCursor(IDBKeyRange.only(model))
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) return
+      store.delete(cursor.primaryKey)
+      cursor.continue()
+    }
+  }
+  await transactionDone(transaction)
+}
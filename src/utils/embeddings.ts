@@ -1,69 +1,35 @@
-import { pipeline, env, type PipelineType } from '@huggingface/transformers'
-
-// Configure to use local models (cached in browser)
-env.allowLocalModels = false
-
-// Detect WebGPU availability
-let deviceConfig: { device?: 'webgpu' } = {}
-let deviceDetected = false
-
-async function detectWebGPU() {
-  if (deviceDetected) return
-  deviceDetected = true
-
-  if (typeof navigator !== 'undefined' && 'gpu' in navigator) {
-    try {
-      // Attempt to request adapter to verify WebGPU is available
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const adapter = await (navigator as any).gpu?.requestAdapter()
-      if (adapter) {
-        deviceConfig = { device: 'webgpu' }
-        console.log('[Embeddings] WebGPU acceleration enabled')
-        return
-      }
-    } catch (error) {
-      console.warn('[Embeddings] WebGPU not available, falling back to WASM:', error)
-    }
-  } else {
-    console.log('[Embeddings] WebGPU not supported by browser, using WASM backend')
-  }
-
-  // Fallback to WASM
-  if (env.backends?.onnx?.wasm) {
-    env.backends.onnx.wasm.numThreads = 1
-  }
-}
-
-export const AVAILABLE_MODELS = [
-  'Xenova/bge-small-en-v1.5',
-  'onnx-community/Qwen3-Embedding-0.6B-ONNX',
-  'Xenova/all-MiniLM-L6-v2',
-  'Xenova/all-MiniLM-L12-v2',
-  'nomic-ai/nomic-embed-text-v1.5',
-] as const
-
-export type ModelName = (typeof AVAILABLE_MODELS)[number]
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let embeddingPipeline: any | null = null
+import { DEFAULT_BATCH_SIZE, embedInBatches } from './batching'
+import {
+  DEFAULT_MODEL,
+  getModelDescriptor,
+  prefixText,
+  type ModelName,
+  type TextRole,
+} from './models'
+import { cacheVariant, embedWithCache } from './embeddingCache'
+import { createEmbedder, type Embedder } from './embedder'
+import type { EmbedderBackend } from './backendSettings'
+import {
+  chunkTokenBudget,
+  embedChunked,
+  type ChunkedEmbeddings,
+  type ChunkingOptions,
+} from './chunking'
+
+let embedder: Embedder | null = null
 let currentModel: ModelName | null = null
 let isInitializing = false
 let initializationPromise: Promise<void> | null = null
 
-export async function initializeModel(
-  modelName: ModelName = 'Xenova/bge-small-en-v1.5',
-): Promise<void> {
-  // Detect WebGPU first
-  await detectWebGPU()
-
+export async function initializeModel(modelName: ModelName = DEFAULT_MODEL): Promise<void> {
   // If same model is already loaded, return
-  if (embeddingPipeline && currentModel === modelName) {
+  if (embedder && currentModel === modelName) {
     return
   }
 
   // If different model is requested, reset
   if (currentModel && currentModel !== modelName) {
-    embeddingPipeline = null
+    embedder = null
     currentModel = null
   }
 
@@ -74,13 +40,10 @@ export async function initializeModel(
   isInitializing = true
   initializationPromise = (async () => {
     try {
-      embeddingPipeline = await pipeline(
-        'feature-extraction' as PipelineType,
-        modelName,
-        deviceConfig.device ? { device: deviceConfig.device } : {},
-      )
+      const next = createEmbedder(getModelDescriptor(modelName))
+      await next.initialize()
+      embedder = next
       currentModel = modelName
-      console.log(`[Embeddings] Model loaded: ${modelName} on ${deviceConfig.device || 'cpu'}`)
     } finally {
       isInitializing = false
     }
@@ -89,52 +52,79 @@ export async function initializeModel(
   return initializationPromise
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!embeddingPipeline) {
+// Embed a single text, such as a search query, with the prefix of its role
+export async function generateEmbedding(
+  text: string,
+  role: TextRole = 'document',
+): Promise<number[]> {
+  if (!embedder || !currentModel) {
     throw new Error('Model not initialized. Call initializeModel() first.')
   }
 
-  // Qwen3 models use last_token pooling, others use mean pooling
-  const poolingStrategy =
-    currentModel === 'onnx-community/Qwen3-Embedding-0.6B-ONNX' ? 'last_token' : 'mean'
-
-  const output = await embeddingPipeline(text, {
-    pooling: poolingStrategy,
-    normalize: true,
-    ...deviceConfig,
-  })
-
-  // Convert tensor to array - for feature extraction, output is a Tensor
-  const tensor = output as { data: Float32Array }
-  return Array.from(tensor.data)
+  const [embedding] = await embedder.embedBatch([prefixText(currentModel, text, role)])
+  return embedding!
 }
 
+// One embedding per text, in input order. Callers decide what to do with empty
+// texts (see emptyRows.ts) so results stay aligned with their rows. Texts get
+// the model's document prefix.
 export async function generateEmbeddings(
   texts: string[],
   onProgress?: (current: number, total: number) => void,
+  batchSize: number = DEFAULT_BATCH_SIZE,
 ): Promise<number[][]> {
-  const embeddings: number[][] = []
-  const total = texts.length
+  if (!embedder || !currentModel) {
+    throw new Error('Model not initialized. Call initializeModel() first.')
+  }
 
-  for (let i = 0; i < texts.length; i++) {
-    const text = texts[i]
-    if (!text) continue
-    
-    const embedding = await generateEmbedding(text)
-    embeddings.push(embedding)
+  const model = currentModel
+  const current = embedder
+  const descriptor = getModelDescriptor(model)
+  return embedWithCache(
+    model,
+    descriptor.pooling,
+    cacheVariant(descriptor, current.backend),
+    texts.map((text) => prefixText(model, text)),
+    (missing, onBatch) => embedInBatches(current, missing, batchSize, onBatch),
+    onProgress,
+  )
+}
 
-    if (onProgress) {
-      onProgress(i + 1, total)
-    }
+// Split long texts into overlapping chunks, embed every chunk and pool them
+// into one vector per text
+export async function generateChunkedEmbeddings(
+  texts: string[],
+  chunking: ChunkingOptions,
+  onProgress?: (current: number, total: number) => void,
+  batchSize: number = DEFAULT_BATCH_SIZE,
+): Promise<ChunkedEmbeddings> {
+  if (!embedder || !currentModel) {
+    throw new Error('Model not initialized. Call initializeModel() first.')
   }
 
-  return embeddings
+  // Chunks longer than the model reads (with the prefix and special tokens)
+  // would still be truncated
+  const { maxTokens, documentPrefix } = getModelDescriptor(currentModel)
+  const budget = chunkTokenBudget(embedder.tokenizer, maxTokens, documentPrefix)
+  return embedChunked(
+    embedder.tokenizer,
+    texts,
+    { ...chunking, chunkTokens: Math.min(chunking.chunkTokens, budget) },
+    (chunks, onChunkProgress) => generateEmbeddings(chunks, onChunkProgress, batchSize),
+    onProgress,
+  )
 }
 
 export function isModelReady(): boolean {
-  return embeddingPipeline !== null
+  return embedder !== null
 }
 
 export function getCurrentModel(): ModelName | null {
   return currentModel
 }
+
+// Device, dtype and threads the loaded model runs on (null for models that do
+// not run in the browser's ONNX runtime)
+export function getLoadedBackend(): EmbedderBackend | null {
+  return embedder?.backend ?? null
+}
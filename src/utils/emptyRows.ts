@@ -0,0 +1,61 @@
+import type { SimilarityPair } from './similarity'
+
+// What to do with rows whose comparison or analysis text is empty or only
+// whitespace: leave them out of the embeddings, or embed a placeholder text
+// (placeholder rows then all match each other)
+export type EmptyRowPolicy = 'exclude' | 'placeholder'
+
+export const EMPTY_ROW_POLICIES: { value: EmptyRowPolicy; label: string }[] = [
+  { value: 'exclude', label: 'Skip empty rows' },
+  { value: 'placeholder', label: 'Embed empty rows as a placeholder' },
+]
+
+export const EMPTY_TEXT_PLACEHOLDER = '(empty)'
+
+export interface EmbeddingInput {
+  // Texts to embed, one per embedded row
+  texts: string[]
+  // Original row index of each text
+  rowIndices: number[]
+}
+
+export function isBlankText(text: string): boolean {
+  return text.trim().length === 0
+}
+
+/**
+ * Apply an empty-row policy to per-row texts. Embeddings generated from
+ * `texts` line up with `rowIndices`, which map them back to the rows.
+ */
+export function prepareEmbeddingInput(rowTexts: string[], policy: EmptyRowPolicy): EmbeddingInput {
+  const texts: string[] = []
+  const rowIndices: number[] = []
+
+  rowTexts.forEach((text, rowIndex) => {
+    if (isBlankText(text)) {
+      if (policy === 'exclude') return
+      text = EMPTY_TEXT_PLACEHOLDER
+    }
+    texts.push(text)
+    rowIndices.push(rowIndex)
+  })
+
+  return { texts, rowIndices }
+}
+
+/**
+ * Rewrite pair indices from embedding positions to original row indices, in
+ * place. Pass `rowIndicesB = null` in single-file mode.
+ */
+export function remapPairRows(
+  pairs: SimilarityPair[],
+  rowIndicesA: number[],
+  rowIndicesB: number[] | null,
+): SimilarityPair[] {
+  const indicesB = rowIndicesB ?? rowIndicesA
+  for (const pair of pairs) {
+    pair.rowIndexA = rowIndicesA[pair.rowIndexA]!
+    pair.rowIndexB = indicesB[pair.rowIndexB]!
+  }
+  return pairs
+}
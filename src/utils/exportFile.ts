@@ -0,0 +1,46 @@
+import * as XLSX from 'xlsx'
+
+/**
+ * Convert a table of cells to CSV, quoting cells that contain commas, quotes or newlines
+ */
+export function toCsvString(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const cellStr = cell.toString()
+          // Escape quotes and wrap in quotes if contains comma, quote, or newline
+          if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
+            return `"${cellStr.replace(/"/g, '""')}"`
+          }
+          return cellStr
+        })
+        .join(','),
+    )
+    .join('\n')
+}
+
+/**
+ * Write a table of cells (first row = headers) to a single-sheet XLSX workbook
+ */
+export function toXlsxBlob(rows: string[][], sheetName = 'Sheet1'): Blob {
+  const worksheet = XLSX.utils.aoa_to_sheet(rows)
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName.slice(0, 31))
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer
+  return new Blob([data], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  })
+}
+
+/**
+ * Trigger a browser download for the given blob
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
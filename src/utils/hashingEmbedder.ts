@@ -0,0 +1,63 @@
+import type { Embedder } from './embedder'
+
+// Deterministic embedder with no model behind it. Words and their character
+// trigrams are hashed into signed buckets (the hashing trick) and the vector
+// is scaled to unit length, so texts sharing words or spellings score high.
+// It knows nothing about meaning; it exists so the comparison and topic
+// pipelines run offline and in tests with identical results every time.
+
+// Trigrams mostly catch spelling variants, so they count less than words
+const TRIGRAM_WEIGHT = 0.5
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const hash = hashFeature(feature)
+  // The top bit picks the sign so unrelated features tend to cancel out
+  const sign = hash & 0x80000000 ? -1 : 1
+  vector[hash % vector.length]! += sign * weight
+}
+
+/**
+ * Hashed bag-of-words vector of a text, unit length
+ */
+export function hashText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+  for (const word of words) {
+    addFeature(vector, `w:${word}`, 1)
+    const padded = ` ${word} `
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT)
+    }
+  }
+  // Texts without words (punctuation only) still get a stable, non-zero vector
+  if (words.length === 0) {
+    addFeature(vector, `r:${text}`, 1)
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return vector.map((value) => value / (norm || 1))
+}
+
+export function createHashingEmbedder(name: string, dimensions: number): Embedder {
+  return {
+    name,
+    dimensions,
+    tokenizer: null,
+    backend: null,
+    async initialize() {},
+    async embedBatch(texts) {
+      return texts.map((text) => hashText(text, dimensions))
+    },
+  }
+}
@@ -0,0 +1,166 @@
+import type { DatasetSide, SimilarityPair } from './similarity'
+
+// String overlap measures blended with the embedding score. Embeddings rank
+// paraphrases highly; these reward rows that literally share IDs, SKUs or names.
+export type LexicalMeasure = 'jaccard' | 'ngram' | 'levenshtein'
+
+export type LexicalScores = Record<LexicalMeasure, number>
+
+// Relative weight of each measure in the blended score
+export interface HybridWeights extends LexicalScores {
+  semantic: number
+}
+
+export const LEXICAL_MEASURES: { value: LexicalMeasure; label: string }[] = [
+  { value: 'jaccard', label: 'Token Jaccard' },
+  { value: 'ngram', label: 'Character trigrams' },
+  { value: 'levenshtein', label: 'Levenshtein' },
+]
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = {
+  semantic: 0.7,
+  jaccard: 0.1,
+  ngram: 0.1,
+  levenshtein: 0.1,
+}
+
+const NGRAM_SIZE = 3
+// Edit distance is O(n * m); longer texts are compared on their prefix
+const MAX_LEVENSHTEIN_LENGTH = 1000
+
+// Pre-processed text, built once per row and reused for every pair it is in
+interface LexicalProfile {
+  text: string
+  tokens: Set<string>
+  ngrams: Set<string>
+}
+
+function buildProfile(raw: string): LexicalProfile {
+  const text = raw.toLowerCase().replace(/\s+/g, ' ').trim()
+  const tokens = new Set(text.split(/[^\p{L}\p{N}]+/u).filter((token) => token.length > 0))
+
+  // Pad so the first and last characters get their own n-grams
+  const padded = ` ${text} `
+  const ngrams = new Set<string>()
+  for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+    ngrams.add(padded.slice(i, i + NGRAM_SIZE))
+  }
+
+  return { text, tokens, ngrams }
+}
+
+function setJaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+  let intersection = 0
+  for (const item of smaller) {
+    if (larger.has(item)) intersection++
+  }
+  return intersection / (a.size + b.size - intersection)
+}
+
+function levenshteinSimilarity(a: string, b: string): number {
+  const s = a.slice(0, MAX_LEVENSHTEIN_LENGTH)
+  const t = b.slice(0, MAX_LEVENSHTEIN_LENGTH)
+  const longest = Math.max(s.length, t.length)
+  if (longest === 0) return 1
+
+  // Two-row dynamic programming table
+  let previous = new Int32Array(t.length + 1)
+  let current = new Int32Array(t.length + 1)
+  for (let j = 0; j <= t.length; j++) previous[j] = j
+
+  for (let i = 1; i <= s.length; i++) {
+    current[0] = i
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+    }
+    ;[previous, current] = [current, previous]
+  }
+
+  return 1 - previous[t.length]! / longest
+}
+
+function measure(kind: LexicalMeasure, a: LexicalProfile, b: LexicalProfile): number {
+  switch (kind) {
+    case 'jaccard':
+      return setJaccard(a.tokens, b.tokens)
+    case 'ngram':
+      return setJaccard(a.ngrams, b.ngrams)
+    case 'levenshtein':
+      return levenshteinSimilarity(a.text, b.text)
+  }
+}
+
+/**
+ * Re-score pairs as a weighted average of the embedding score and the lexical
+ * measures of their comparison texts. Measures with zero weight are skipped.
+ * The embedding score is kept in `semanticScore` and the measures in
+ * `lexicalScores`, so the breakdown shows what was blended; pairs are re-sorted
+ * (and re-ranked within each row for top-K results). Runs in the compute
+ * worker (the `lexical` job).
+ */
+export function applyHybridScores(
+  pairs: SimilarityPair[],
+  getText: (side: DatasetSide, index: number) => string,
+  weights: HybridWeights,
+  onProgress?: (current: number, total: number) => void,
+): SimilarityPair[] {
+  const active = LEXICAL_MEASURES.map((m) => m.value).filter((kind) => weights[kind] > 0)
+  const semanticWeight = Math.max(0, weights.semantic)
+  const totalWeight = active.reduce((sum, kind) => sum + weights[kind], semanticWeight)
+  if (totalWeight === 0) {
+    return pairs
+  }
+
+  const profiles = new Map<string, LexicalProfile>()
+  const getProfile = (side: DatasetSide, index: number) => {
+    const key = `${side}:${index}`
+    let profile = profiles.get(key)
+    if (!profile) {
+      profile = buildProfile(getText(side, index))
+      profiles.set(key, profile)
+    }
+    return profile
+  }
+
+  const rescored = pairs.map((pair, index) => {
+    const profileA = getProfile(pair.sourceA, pair.rowIndexA)
+    const profileB = getProfile(pair.sourceB, pair.rowIndexB)
+    let weighted = semanticWeight * pair.score
+    const lexicalScores: Partial<LexicalScores> = {}
+    for (const kind of active) {
+      lexicalScores[kind] = measure(kind, profileA, profileB)
+      weighted += weights[kind] * lexicalScores[kind]
+    }
+    if (onProgress && (index + 1) % 100 === 0) {
+      onProgress(index + 1, pairs.length)
+    }
+    return { ...pair, score: weighted / totalWeight, semanticScore: pair.score, lexicalScores }
+  })
+  onProgress?.(pairs.length, pairs.length)
+
+  const byScore = (a: SimilarityPair, b: SimilarityPair) => b.score - a.score
+  if (rescored[0]?.rank === undefined) {
+    return rescored.sort(byScore)
+  }
+
+  // Top-K lists are grouped by row: re-order and re-rank within each group
+  const result: SimilarityPair[] = []
+  let start = 0
+  while (start < rescored.length) {
+    let end = start + 1
+    while (
+      end < rescored.length &&
+      rescored[end]!.rowIndexA === rescored[start]!.rowIndexA &&
+      rescored[end]!.sourceA === rescored[start]!.sourceA
+    ) {
+      end++
+    }
+    const group = rescored.slice(start, end).sort(byScore)
+    group.forEach((pair, i) => result.push({ ...pair, rank: i + 1 }))
+    start = end
+  }
+  return result
+}
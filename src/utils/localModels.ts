@@ -0,0 +1,83 @@
+// Models uploaded from a local folder. The files are stored in Cache Storage
+// under the path transformers.js looks up for a local model
+// (`/models/<model id>/<file>`), so loading them never touches the network and
+// they survive a reload.
+
+export const LOCAL_MODEL_PATH = '/models/'
+
+const LOCAL_MODEL_CACHE = 'compear-local-models'
+// Cache transformers.js keeps downloaded model files in by default
+const DOWNLOAD_CACHE = 'transformers-cache'
+
+function fileKey(modelId: string, path: string): string {
+  return `${LOCAL_MODEL_PATH}${modelId}/${path}`
+}
+
+/**
+ * Model ID for an uploaded folder
+ */
+export function localModelId(folderName: string): string {
+  const slug = folderName
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `local/${slug || 'model'}`
+}
+
+/**
+ * Path of an uploaded file inside the selected folder (without the folder
+ * name itself)
+ */
+export function relativeModelPath(file: File): string {
+  return file.webkitRelativePath.split('/').slice(1).join('/') || file.name
+}
+
+/**
+ * Check that a folder looks like a transformers.js model: config, tokenizer
+ * and ONNX weights under onnx/. Returns an error message, or null.
+ */
+export function validateModelFolder(paths: string[]): string | null {
+  if (!paths.includes('config.json')) return 'The folder has no config.json'
+  if (!paths.includes('tokenizer.json')) return 'The folder has no tokenizer.json'
+  if (!paths.some((path) => path.startsWith('onnx/') && path.endsWith('.onnx'))) {
+    return 'The folder has no ONNX weights in onnx/ (e.g. onnx/model_quantized.onnx)'
+  }
+  return null
+}
+
+/**
+ * Store the files of an uploaded model folder
+ */
+export async function saveLocalModelFiles(modelId: string, files: File[]): Promise<void> {
+  const cache = await caches.open(LOCAL_MODEL_CACHE)
+  await deleteLocalModelFiles(modelId)
+  for (const file of files) {
+    await cache.put(fileKey(modelId, relativeModelPath(file)), new Response(file))
+  }
+}
+
+export async function deleteLocalModelFiles(modelId: string): Promise<void> {
+  const cache = await caches.open(LOCAL_MODEL_CACHE)
+  const prefix = new URL(fileKey(modelId, ''), self.location.origin).href
+  const requests = await cache.keys()
+  await Promise.all(
+    requests
+      .filter((request) => request.url.startsWith(prefix))
+      .map((request) => cache.delete(request)),
+  )
+}
+
+/**
+ * Cache for transformers.js (`env.customCache`): uploaded model files first,
+ * then the usual cache of downloaded files
+ */
+export const modelFileCache = {
+  async match(request: string): Promise<Response | undefined> {
+    const local = await (await caches.open(LOCAL_MODEL_CACHE)).match(request)
+    return local ?? (await caches.open(DOWNLOAD_CACHE)).match(request)
+  },
+  async put(request: string, response: Response): Promise<void> {
+    await (await caches.open(DOWNLOAD_CACHE)).put(request, response)
+  },
+}
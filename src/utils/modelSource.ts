@@ -0,0 +1,33 @@
+import { env } from '@huggingface/transformers'
+import type { ModelDescriptor } from './models'
+import { LOCAL_MODEL_PATH, modelFileCache } from './localModels'
+
+// Where transformers.js fetches model files from. Hub and self-hosted models
+// are downloaded; uploaded models are only read from Cache Storage.
+
+const HUB_HOST = env.remoteHost
+const HUB_PATH_TEMPLATE = env.remotePathTemplate
+
+env.allowLocalModels = false
+env.localModelPath = LOCAL_MODEL_PATH
+if (typeof caches !== 'undefined') {
+  env.useCustomCache = true
+  env.customCache = modelFileCache
+}
+
+/**
+ * Point transformers.js at a model's files. Call before creating its pipeline.
+ */
+export function configureModelSource(descriptor: ModelDescriptor) {
+  // Local models must never fall back to the Hub
+  env.allowLocalModels = descriptor.source === 'local'
+  env.allowRemoteModels = descriptor.source !== 'local'
+
+  if (descriptor.source === 'host' && descriptor.host) {
+    env.remoteHost = descriptor.host.endsWith('/') ? descriptor.host : `${descriptor.host}/`
+    env.remotePathTemplate = '{model}/'
+  } else {
+    env.remoteHost = HUB_HOST
+    env.remotePathTemplate = HUB_PATH_TEMPLATE
+  }
+}
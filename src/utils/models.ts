@@ -0,0 +1,221 @@
+import type { PoolingStrategy } from './batching'
+import type { EmbedderProvider } from './embedder'
+import type { EndpointOptions } from './remoteEmbedder'
+
+// Embedding model registry. Everything that depends on the model (pooling,
+// instruction prefixes, input length, vector size, a sensible score threshold)
+// is read from here instead of being checked by model name. Built-in models
+// are listed below; users can add custom models, which are kept in
+// localStorage on the main thread and sent along with every worker job.
+
+// Where the weights are downloaded from: the Hugging Face Hub, a self-hosted
+// static server laid out as `<host>/<model id>/<file>`, or files uploaded from
+// a local folder (see localModels.ts)
+export type ModelSource = 'hub' | 'host' | 'local'
+
+export interface ModelDescriptor {
+  id: string
+  // What computes the vectors; defaults to 'transformers'
+  provider?: EmbedderProvider
+  // Where transformers.js models are loaded from; defaults to 'hub'
+  source?: ModelSource
+  // Base URL of the static server, for source 'host', or of the embedding
+  // server (e.g. http://localhost:11434/v1), for provider 'openai'
+  host?: string
+  // Model name, batch size, retries and rate limit, for provider 'openai'
+  endpoint?: EndpointOptions
+  // Added by the user rather than built in
+  custom?: boolean
+  // Short name for selects and status lines
+  label: string
+  pooling: PoolingStrategy
+  // Prepended to every row / document text before embedding
+  documentPrefix: string
+  // Prepended to search queries
+  queryPrefix: string
+  // Longest input the model reads, in tokens; longer texts are truncated
+  maxTokens: number
+  dimensions: number
+  // Starting point for duplicate grouping; scores of different models are not
+  // on the same scale
+  recommendedThreshold: number
+}
+
+export const MODEL_REGISTRY: ModelDescriptor[] = [
+  {
+    id: 'Xenova/bge-small-en-v1.5',
+    source: 'hub',
+    label: 'bge-small-en-v1.5',
+    pooling: 'cls',
+    documentPrefix: '',
+    queryPrefix: 'Represent this sentence for searching relevant passages: ',
+    maxTokens: 512,
+    dimensions: 384,
+    recommendedThreshold: 0.9,
+  },
+  {
+    id: 'onnx-community/Qwen3-Embedding-0.6B-ONNX',
+    source: 'hub',
+    label: 'Qwen3-Embedding-0.6B',
+    pooling: 'last_token',
+    documentPrefix: '',
+    queryPrefix:
+      'Instruct: Given a web search query, retrieve relevant passages that answer the query\nQuery:',
+    maxTokens: 32768,
+    dimensions: 1024,
+    recommendedThreshold: 0.8,
+  },
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    source: 'hub',
+    label: 'all-MiniLM-L6-v2',
+    pooling: 'mean',
+    documentPrefix: '',
+    queryPrefix: '',
+    maxTokens: 256,
+    dimensions: 384,
+    recommendedThreshold: 0.8,
+  },
+  {
+    id: 'Xenova/all-MiniLM-L12-v2',
+    source: 'hub',
+    label: 'all-MiniLM-L12-v2',
+    pooling: 'mean',
+    documentPrefix: '',
+    queryPrefix: '',
+    maxTokens: 256,
+    dimensions: 384,
+    recommendedThreshold: 0.8,
+  },
+  {
+    id: 'nomic-ai/nomic-embed-text-v1.5',
+    source: 'hub',
+    label: 'nomic-embed-text-v1.5',
+    pooling: 'mean',
+    documentPrefix: 'search_document: ',
+    queryPrefix: 'search_query: ',
+    maxTokens: 8192,
+    dimensions: 768,
+    recommendedThreshold: 0.85,
+  },
+  {
+    id: 'hashing/512',
+    provider: 'hashing',
+    label: 'Word hashing (offline)',
+    // Not used: the hashing embedder sums word features instead of pooling
+    pooling: 'mean',
+    documentPrefix: '',
+    queryPrefix: '',
+    maxTokens: 8192,
+    dimensions: 512,
+    recommendedThreshold: 0.8,
+  },
+]
+
+// Model ID: a Hugging Face repo ID, a path on a custom host, or local/<name>
+export type ModelName = string
+
+export const DEFAULT_MODEL: ModelName = 'Xenova/bge-small-en-v1.5'
+
+const CUSTOM_MODELS_KEY = 'compear:customModels'
+
+// Custom models known to this context: read from localStorage on the main
+// thread, registered per job in the worker
+let customModels: ModelDescriptor[] = readCustomModels()
+
+function readCustomModels(): ModelDescriptor[] {
+  if (typeof localStorage === 'undefined') return []
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_MODELS_KEY) ?? '[]')
+  } catch {
+    return []
+  }
+}
+
+function writeCustomModels() {
+  // localStorage is plain text: API keys are only written when asked to
+  const stored = customModels.map((model) =>
+    model.endpoint?.apiKey && !model.endpoint.rememberApiKey
+      ? { ...model, endpoint: { ...model.endpoint, apiKey: undefined } }
+      : model,
+  )
+  try {
+    localStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(stored))
+  } catch (error) {
+    console.warn('[Models] Failed to save custom models:', error)
+  }
+}
+
+export function getCustomModels(): ModelDescriptor[] {
+  return customModels
+}
+
+/**
+ * Replace the custom models of this context without saving them (used by the
+ * worker)
+ */
+export function registerCustomModels(models: ModelDescriptor[]) {
+  customModels = models
+}
+
+/**
+ * Add or update a custom model and remember it across sessions
+ */
+export function saveCustomModel(model: ModelDescriptor) {
+  if (MODEL_REGISTRY.some((entry) => entry.id === model.id)) {
+    throw new Error(`${model.id} is already a built-in model`)
+  }
+  customModels = [
+    ...customModels.filter((entry) => entry.id !== model.id),
+    { ...model, custom: true },
+  ]
+  writeCustomModels()
+}
+
+export function removeCustomModel(id: ModelName) {
+  customModels = customModels.filter((entry) => entry.id !== id)
+  writeCustomModels()
+}
+
+// Documents are rows and chunks; queries are free-text searches
+export type TextRole = 'document' | 'query'
+
+export function getModelDescriptor(model: ModelName): ModelDescriptor {
+  const descriptor =
+    MODEL_REGISTRY.find((entry) => entry.id === model) ??
+    customModels.find((entry) => entry.id === model)
+  if (!descriptor) {
+    throw new Error(`Unknown model: ${model}`)
+  }
+  return descriptor
+}
+
+/**
+ * Add the model's document or query instruction prefix to a text
+ */
+export function prefixText(model: ModelName, text: string, role: TextRole = 'document'): string {
+  const descriptor = getModelDescriptor(model)
+  return (role === 'query' ? descriptor.queryPrefix : descriptor.documentPrefix) + text
+}
+
+/**
+ * One-line summary of a model for the model selectors
+ */
+export function describeModel(descriptor: ModelDescriptor): string {
+  if (descriptor.provider === 'hashing') {
+    return `${descriptor.dimensions} dimensions · matches shared words, not meaning · no download`
+  }
+  if (descriptor.provider === 'openai') {
+    return `${descriptor.endpoint?.model} on ${descriptor.host} · suggested threshold ${Math.round(descriptor.recommendedThreshold * 100)}%`
+  }
+  const parts = [
+    `${descriptor.dimensions} dimensions`,
+    `reads up to ${descriptor.maxTokens} tokens`,
+    `${descriptor.pooling.replace('_', ' ')} pooling`,
+    `suggested threshold ${Math.round(descriptor.recommendedThreshold * 100)}%`,
+  ]
+  if (descriptor.documentPrefix || descriptor.queryPrefix) {
+    parts.push('adds instruction prefixes')
+  }
+  return parts.join(' · ')
+}
@@ -0,0 +1,162 @@
+import type { CsvRow } from './csvParser'
+import type { PairCandidates } from './similarity'
+
+// 'sameValue' only pairs rows that share a value (blocking), 'differentValue'
+// excludes pairs that share one, 'dateWithin' only pairs rows at most N days apart
+export type PairConstraintKind = 'sameValue' | 'differentValue' | 'dateWithin'
+
+export interface PairConstraint {
+  kind: PairConstraintKind
+  // Column of dataset A (and of dataset B in single-file mode)
+  column: string
+  // Column of dataset B in cross-file mode; defaults to `column`
+  columnB?: string
+  // Maximum distance for 'dateWithin'
+  days?: number
+}
+
+export const PAIR_CONSTRAINT_KINDS: { value: PairConstraintKind; label: string }[] = [
+  { value: 'sameValue', label: 'Same value in' },
+  { value: 'differentValue', label: 'Different value in' },
+  { value: 'dateWithin', label: 'Dates within N days in' },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function normalizeValue(value: string | undefined): string {
+  return (value ?? '').trim().toLowerCase()
+}
+
+function parseDate(value: string | undefined): number | null {
+  const text = (value ?? '').trim()
+  if (!text) return null
+  const time = Date.parse(text)
+  return Number.isNaN(time) ? null : time
+}
+
+// Rows sharing every 'sameValue' key; only pairs inside a block are candidates
+interface Block {
+  a: number[]
+  b: number[]
+}
+
+/**
+ * Candidate pairs allowed by the constraints. 'sameValue' constraints split the
+ * rows into blocks and the first 'dateWithin' constraint is applied as a sliding
+ * window over each block sorted by date, so excluded pairs are never visited.
+ * Remaining constraints are checked per candidate before it is scored.
+ * Rows with an empty blocking value or an unparseable date are never paired.
+ * Pass `rowsB = null` for single-file mode (each pair is visited once, i < j).
+ */
+export function buildPairCandidates(
+  rowsA: CsvRow[],
+  rowsB: CsvRow[] | null,
+  constraints: PairConstraint[],
+): PairCandidates {
+  const crossMode = rowsB !== null
+  const otherRows = rowsB ?? rowsA
+  const columnB = (constraint: PairConstraint) =>
+    crossMode ? (constraint.columnB ?? constraint.column) : constraint.column
+
+  const blocking = constraints.filter((c) => c.kind === 'sameValue')
+  const dateConstraints = constraints.filter((c) => c.kind === 'dateWithin')
+  const exclusions = constraints.filter((c) => c.kind === 'differentValue')
+  const window = dateConstraints[0]
+  const windowMs = Math.max(0, window?.days ?? 0) * DAY_MS
+
+  // Per-row values, read once
+  const datesA = dateConstraints.map((c) => rowsA.map((row) => parseDate(row[c.column])))
+  const datesB = dateConstraints.map((c) => otherRows.map((row) => parseDate(row[columnB(c)])))
+  const valuesA = exclusions.map((c) => rowsA.map((row) => normalizeValue(row[c.column])))
+  const valuesB = exclusions.map((c) => otherRows.map((row) => normalizeValue(row[columnB(c)])))
+
+  const blockKey = (row: CsvRow, side: 'A' | 'B'): string | null => {
+    const parts: string[] = []
+    for (const constraint of blocking) {
+      const value = normalizeValue(row[side === 'A' ? constraint.column : columnB(constraint)])
+      if (!value) return null
+      parts.push(value)
+    }
+    return JSON.stringify(parts)
+  }
+
+  const blocks = new Map<string, Block>()
+  const addToBlock = (rows: CsvRow[], side: 'A' | 'B') => {
+    rows.forEach((row, index) => {
+      // Rows without a date can never satisfy a date constraint
+      const dates = side === 'A' ? datesA : datesB
+      if (dates.some((column) => column[index] === null)) return
+      const key = blockKey(row, side)
+      if (key === null) return
+      let block = blocks.get(key)
+      if (!block) {
+        block = { a: [], b: [] }
+        blocks.set(key, block)
+      }
+      block[side === 'A' ? 'a' : 'b'].push(index)
+    })
+  }
+  addToBlock(rowsA, 'A')
+  if (crossMode) addToBlock(rowsB, 'B')
+
+  // Window dates (first 'dateWithin' constraint) sort each block
+  if (window) {
+    for (const block of blocks.values()) {
+      block.a.sort((x, y) => datesA[0]![x]! - datesA[0]![y]!)
+      block.b.sort((x, y) => datesB[0]![x]! - datesB[0]![y]!)
+    }
+  }
+
+  const accepts = (i: number, j: number): boolean => {
+    for (let c = 1; c < dateConstraints.length; c++) {
+      const maxMs = Math.max(0, dateConstraints[c]!.days ?? 0) * DAY_MS
+      if (Math.abs(datesA[c]![i]! - datesB[c]![j]!) > maxMs) return false
+    }
+    for (let c = 0; c < exclusions.length; c++) {
+      const value = valuesA[c]![i]!
+      if (value && value === valuesB[c]![j]) return false
+    }
+    return true
+  }
+
+  const forEach = (visit: (i: number, j: number) => void) => {
+    for (const { a, b } of blocks.values()) {
+      if (crossMode) {
+        if (!window) {
+          for (const i of a) {
+            for (const j of b) {
+              if (accepts(i, j)) visit(i, j)
+            }
+          }
+          continue
+        }
+        // Both sides sorted by date: slide the start of B's window forward
+        let start = 0
+        for (const i of a) {
+          const dateA = datesA[0]![i]!
+          while (start < b.length && datesB[0]![b[start]!]! < dateA - windowMs) start++
+          for (let q = start; q < b.length && datesB[0]![b[q]!]! <= dateA + windowMs; q++) {
+            const j = b[q]!
+            if (accepts(i, j)) visit(i, j)
+          }
+        }
+        continue
+      }
+
+      for (let p = 0; p < a.length; p++) {
+        for (let q = p + 1; q < a.length; q++) {
+          if (window && datesA[0]![a[q]!]! - datesA[0]![a[p]!]! > windowMs) break
+          const i = Math.min(a[p]!, a[q]!)
+          const j = Math.max(a[p]!, a[q]!)
+          if (accepts(i, j)) visit(i, j)
+        }
+      }
+    }
+  }
+
+  // Count once up front so scoring can report progress
+  let total = 0
+  forEach(() => total++)
+
+  return { total, forEach }
+}
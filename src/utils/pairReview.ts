@@ -0,0 +1,83 @@
+import type { DatasetSide, SimilarityPair } from './similarity'
+
+// Reviewer verdict on a matched pair
+export type PairLabel = 'match' | 'nonMatch' | 'unsure'
+
+export const PAIR_LABELS: { value: PairLabel; label: string; shortcut: string }[] = [
+  { value: 'match', label: 'Match', shortcut: 'm' },
+  { value: 'nonMatch', label: 'Non-match', shortcut: 'n' },
+  { value: 'unsure', label: 'Unsure', shortcut: 'u' },
+]
+
+/**
+ * Stable key of a row pair. Within one file (i, j) and (j, i) are the same
+ * pair, so the lower row comes first.
+ */
+export function rowPairKey(
+  sourceA: DatasetSide,
+  rowIndexA: number,
+  sourceB: DatasetSide,
+  rowIndexB: number,
+): string {
+  const a = `${sourceA}:${rowIndexA}`
+  const b = `${sourceB}:${rowIndexB}`
+  return sourceA === sourceB && rowIndexB < rowIndexA ? `${b}|${a}` : `${a}|${b}`
+}
+
+export function pairKey(pair: SimilarityPair): string {
+  return rowPairKey(pair.sourceA, pair.rowIndexA, pair.sourceB, pair.rowIndexB)
+}
+
+export interface ScoreBand {
+  // Inclusive lower and exclusive upper score bound (the top band includes 1)
+  min: number
+  max: number
+  total: number
+  reviewed: number
+  match: number
+  nonMatch: number
+  unsure: number
+}
+
+/**
+ * Count pairs and review labels per score band of `bandWidth`, highest band
+ * first. A pair listed twice (top-K mode lists it under both rows) counts once.
+ */
+export function summarizeByScoreBand(
+  pairs: SimilarityPair[],
+  labels: Record<string, PairLabel>,
+  bandWidth: number,
+): ScoreBand[] {
+  const scores = new Map<string, number>()
+  for (const pair of pairs) {
+    const key = pairKey(pair)
+    scores.set(key, Math.max(scores.get(key) ?? -Infinity, pair.score))
+  }
+
+  const bands = new Map<number, ScoreBand>()
+  for (const [key, score] of scores) {
+    // Scores of exactly 1 belong to the top band
+    const index = Math.min(Math.floor(score / bandWidth), Math.ceil(1 / bandWidth) - 1)
+    let band = bands.get(index)
+    if (!band) {
+      band = {
+        min: index * bandWidth,
+        max: (index + 1) * bandWidth,
+        total: 0,
+        reviewed: 0,
+        match: 0,
+        nonMatch: 0,
+        unsure: 0,
+      }
+      bands.set(index, band)
+    }
+    band.total++
+    const label = labels[key]
+    if (label) {
+      band.reviewed++
+      band[label]++
+    }
+  }
+
+  return [...bands.entries()].sort((a, b) => b[0] - a[0]).map(([, band]) => band)
+}
@@ -0,0 +1,115 @@
+import { pipeline, env, type PipelineType } from '@huggingface/transformers'
+import type { Embedder, EmbedderTokenizer } from './embedder'
+import type { ModelDescriptor } from './models'
+import { configureModelSource } from './modelSource'
+import {
+  describeBackend,
+  getBackendSettings,
+  type BackendSettings,
+  type EmbedderBackend,
+} from './backendSettings'
+
+// Embedder backed by a transformers.js feature-extraction pipeline. Device,
+// weight dtype and WASM threads come from the model's backend settings; WebGPU
+// falls back to WASM when the browser has no adapter.
+
+// Whether the browser has a usable WebGPU adapter; checked once
+let webgpuAvailable: Promise<boolean> | null = null
+
+function detectWebGPU(): Promise<boolean> {
+  webgpuAvailable ??= (async () => {
+    if (typeof navigator === 'undefined' || !('gpu' in navigator)) {
+      console.log('[Embeddings] WebGPU not supported by browser, using WASM backend')
+      return false
+    }
+    try {
+      // Attempt to request adapter to verify WebGPU is available
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const adapter = await (navigator as any).gpu?.requestAdapter()
+      if (adapter) {
+        console.log('[Embeddings] WebGPU acceleration enabled')
+        return true
+      }
+    } catch (error) {
+      console.warn('[Embeddings] WebGPU not available, falling back to WASM:', error)
+    }
+    return false
+  })()
+  return webgpuAvailable
+}
+
+// Device, dtype and thread count the settings come down to here
+async function resolveBackend(settings: BackendSettings): Promise<EmbedderBackend> {
+  let device: EmbedderBackend['device'] = 'wasm'
+  if (settings.device !== 'wasm') {
+    if (await detectWebGPU()) {
+      device = 'webgpu'
+    } else if (settings.device === 'webgpu') {
+      console.warn('[Embeddings] WebGPU was selected but is not available, using WASM')
+    }
+  }
+
+  // Threads need SharedArrayBuffer, which needs a cross-origin isolated page
+  const threads =
+    typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated
+      ? Math.max(1, Math.floor(settings.wasmThreads))
+      : 1
+  // transformers.js defaults: q8 on WASM, fp32 elsewhere
+  const dtype = settings.dtype === 'auto' ? (device === 'wasm' ? 'q8' : 'fp32') : settings.dtype
+  return { device, dtype, threads }
+}
+
+export function createPipelineEmbedder(
+  descriptor: ModelDescriptor,
+  settings: BackendSettings = getBackendSettings(descriptor.id),
+): Embedder {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let extractor: any | null = null
+  let backend: EmbedderBackend | null = null
+
+  return {
+    name: descriptor.id,
+    dimensions: descriptor.dimensions,
+    get tokenizer(): EmbedderTokenizer | null {
+      return extractor?.tokenizer ?? null
+    },
+    get backend() {
+      return backend
+    },
+
+    async initialize() {
+      if (extractor) return
+      const resolved = await resolveBackend(settings)
+      // Read once, when the WASM runtime starts; see restartWorker()
+      if (env.backends?.onnx?.wasm) {
+        env.backends.onnx.wasm.numThreads = resolved.threads
+      }
+      configureModelSource(descriptor)
+      extractor = await pipeline('feature-extraction' as PipelineType, descriptor.id, {
+        device: resolved.device,
+        dtype: resolved.dtype,
+      })
+      // last_token pooling reads the final position, which is padding for all
+      // but the longest text of a right-padded batch
+      if (descriptor.pooling === 'last_token' && extractor.tokenizer) {
+        extractor.tokenizer.padding_side = 'left'
+      }
+      backend = resolved
+      console.log(`[Embeddings] Model loaded: ${descriptor.id} on ${describeBackend(resolved)}`)
+    },
+
+    async embedBatch(texts) {
+      if (!extractor) {
+        throw new Error('Model not initialized. Call initialize() first.')
+      }
+      const output = await extractor(texts, { pooling: descriptor.pooling, normalize: true })
+
+      // Output is a [batch, dimension] tensor
+      const tensor = output as { data: Float32Array; dims: number[] }
+      const dimension = tensor.dims[tensor.dims.length - 1]!
+      return texts.map((_, row) =>
+        Array.from(tensor.data.subarray(row * dimension, (row + 1) * dimension)),
+      )
+    },
+  }
+}
@@ -0,0 +1,249 @@
+import type { CsvRow } from './csvParser'
+
+// Embeddings computed elsewhere (e.g. in a data warehouse) and brought in with
+// the data, and the reverse: generated embeddings written out for other tools.
+// Vectors are indexed by row; null marks a row without a vector, which is
+// left out of the comparison like an empty row.
+
+export interface PrecomputedEmbeddings {
+  // Where the vectors came from, for status lines
+  origin: string
+  dimensions: number
+  vectors: (number[] | null)[]
+}
+
+export type EmbeddingExportFormat = 'npy' | 'jsonl' | 'csv'
+
+export const EMBEDDING_EXPORT_FORMATS: { value: EmbeddingExportFormat; label: string }[] = [
+  { value: 'npy', label: 'NumPy .npy (one row per file row)' },
+  { value: 'jsonl', label: 'JSONL' },
+  { value: 'csv', label: 'CSV' },
+]
+
+const NPY_MAGIC = '\x93NUMPY'
+
+/**
+ * Parse a vector written as a JSON array (`[0.1, 0.2]`) or as numbers
+ * separated by commas, semicolons or spaces. Returns null if it is not one.
+ */
+export function parseVector(value: string): number[] | null {
+  const body = value
+    .trim()
+    .replace(/^\[|\]$/g, '')
+    .trim()
+  if (!body) return null
+  const values = body.split(/[\s,;]+/).map(Number)
+  return values.every(Number.isFinite) ? values : null
+}
+
+/**
+ * Check row count and dimensions of imported vectors
+ */
+function checkVectors(
+  vectors: (number[] | null)[],
+  origin: string,
+  rowCount: number,
+): PrecomputedEmbeddings {
+  if (vectors.length !== rowCount) {
+    throw new Error(`${origin} has ${vectors.length} vectors but the file has ${rowCount} rows`)
+  }
+  const first = vectors.find((vector) => vector !== null)
+  if (!first) {
+    throw new Error(`${origin} has no vectors`)
+  }
+  vectors.forEach((vector, index) => {
+    if (vector && vector.length !== first.length) {
+      throw new Error(
+        `Row ${index + 1} of ${origin} has ${vector.length} values, expected ${first.length}`,
+      )
+    }
+  })
+  return { origin, dimensions: first.length, vectors }
+}
+
+/**
+ * Vectors stored in a column of the loaded file. Empty cells mean no vector.
+ */
+export function vectorsFromColumn(rows: CsvRow[], column: string): PrecomputedEmbeddings {
+  const origin = `column "${column}"`
+  const vectors = rows.map((row, index) => {
+    const cell = (row[column] ?? '').trim()
+    if (!cell) return null
+    const vector = parseVector(cell)
+    if (!vector) {
+      throw new Error(`Row ${index + 1} of ${origin} is not a vector: ${cell.slice(0, 40)}`)
+    }
+    return vector
+  })
+  return checkVectors(vectors, origin, rows.length)
+}
+
+/**
+ * Vectors of a 2-D float32/float64 .npy array, one row per file row. Rows
+ * that are all NaN mean no vector (that is how embeddings are exported).
+ */
+export function vectorsFromNpy(
+  buffer: ArrayBuffer,
+  origin: string,
+  rowCount: number,
+): PrecomputedEmbeddings {
+  const bytes = new Uint8Array(buffer)
+  if (String.fromCharCode(...bytes.subarray(0, 6)) !== NPY_MAGIC) {
+    throw new Error(`${origin} is not a .npy file`)
+  }
+  const view = new DataView(buffer)
+  const major = bytes[6]!
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true)
+  const dataOffset = (major === 1 ? 10 : 12) + headerLength
+  const header = new TextDecoder().decode(bytes.subarray(dataOffset - headerLength, dataOffset))
+
+  const descr = /'descr':\s*'([<>|=])(f4|f8)'/.exec(header)
+  const shape = /'shape':\s*\((\d+),\s*(\d+)\s*,?\s*\)/.exec(header)
+  if (!descr) {
+    throw new Error(`${origin} must hold float32 or float64 values`)
+  }
+  if (!shape) {
+    throw new Error(`${origin} must be a 2-D array (rows x dimensions)`)
+  }
+  if (/'fortran_order':\s*True/.test(header)) {
+    throw new Error(`${origin} is stored in Fortran order; save it with np.ascontiguousarray`)
+  }
+
+  const littleEndian = descr[1] !== '>'
+  const size = descr[2] === 'f4' ? 4 : 8
+  const rows = Number(shape[1])
+  const dimensions = Number(shape[2])
+  if (buffer.byteLength < dataOffset + rows * dimensions * size) {
+    throw new Error(`${origin} is shorter than its header says`)
+  }
+
+  const vectors: (number[] | null)[] = []
+  for (let row = 0; row < rows; row++) {
+    const vector = new Array<number>(dimensions)
+    for (let d = 0; d < dimensions; d++) {
+      const offset = dataOffset + (row * dimensions + d) * size
+      vector[d] =
+        size === 4 ? view.getFloat32(offset, littleEndian) : view.getFloat64(offset, littleEndian)
+    }
+    vectors.push(vector.every(Number.isNaN) ? null : vector)
+  }
+  return checkVectors(vectors, origin, rowCount)
+}
+
+/**
+ * Vectors of a JSONL file: one JSON array, or object with an `embedding` (or
+ * `vector`) array, per line. Objects with a 1-based `row` are placed at that
+ * row; otherwise lines are taken in row order.
+ */
+export function vectorsFromJsonl(
+  text: string,
+  origin: string,
+  rowCount: number,
+): PrecomputedEmbeddings {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim())
+  const entries = lines.map((line, index) => {
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch {
+      throw new Error(`Line ${index + 1} of ${origin} is not valid JSON`)
+    }
+    const entry = (Array.isArray(value) ? { embedding: value } : value) as {
+      row?: number
+      embedding?: unknown
+      vector?: unknown
+    }
+    const vector = entry.embedding ?? entry.vector
+    if (!Array.isArray(vector) || !vector.every((x) => typeof x === 'number')) {
+      throw new Error(`Line ${index + 1} of ${origin} has no embedding array`)
+    }
+    return { row: entry.row, vector: vector as number[] }
+  })
+
+  if (!entries.some((entry) => entry.row !== undefined)) {
+    return checkVectors(
+      entries.map((entry) => entry.vector),
+      origin,
+      rowCount,
+    )
+  }
+
+  const vectors: (number[] | null)[] = new Array(rowCount).fill(null)
+  entries.forEach((entry, index) => {
+    const row = entry.row
+    if (row === undefined || !Number.isInteger(row) || row < 1 || row > rowCount) {
+      throw new Error(`Line ${index + 1} of ${origin} has no row between 1 and ${rowCount}`)
+    }
+    vectors[row - 1] = entry.vector
+  })
+  return checkVectors(vectors, origin, rowCount)
+}
+
+/**
+ * Spread embeddings that cover only some rows (see emptyRows.ts) over all rows
+ */
+export function embeddingsByRow(
+  embeddings: number[][],
+  rowIndices: number[],
+  rowCount: number,
+): (number[] | null)[] {
+  const byRow: (number[] | null)[] = new Array(rowCount).fill(null)
+  rowIndices.forEach((rowIndex, i) => (byRow[rowIndex] = embeddings[i] ?? null))
+  return byRow
+}
+
+/**
+ * Float32 .npy matrix with one row per file row; rows without an embedding
+ * are NaN, so row i of the array is row i of the file
+ */
+export function embeddingsToNpy(vectors: (number[] | null)[], dimensions: number): ArrayBuffer {
+  let header = `{'descr': '<f4', 'fortran_order': False, 'shape': (${vectors.length}, ${dimensions}), }`
+  // Magic, version and length take 10 bytes; pad so the data starts at a
+  // multiple of 64 and the header ends with a newline
+  header = header.padEnd(Math.ceil((header.length + 11) / 64) * 64 - 11, ' ') + '\n'
+
+  const buffer = new ArrayBuffer(10 + header.length + vectors.length * dimensions * 4)
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  for (let i = 0; i < NPY_MAGIC.length; i++) bytes[i] = NPY_MAGIC.charCodeAt(i)
+  bytes[6] = 1
+  bytes[7] = 0
+  view.setUint16(8, header.length, true)
+  for (let i = 0; i < header.length; i++) bytes[10 + i] = header.charCodeAt(i)
+
+  const data = new Float32Array(buffer, 10 + header.length)
+  vectors.forEach((vector, row) => {
+    if (vector) data.set(vector, row * dimensions)
+    else data.fill(NaN, row * dimensions, (row + 1) * dimensions)
+  })
+  return buffer
+}
+
+/**
+ * One JSON object per embedded row: 1-based row number, key and embedding
+ */
+export function embeddingsToJsonl(vectors: (number[] | null)[], keys: string[] | null): string {
+  return vectors
+    .flatMap((vector, index) =>
+      vector ? [JSON.stringify({ row: index + 1, key: keys?.[index], embedding: vector })] : [],
+    )
+    .join('\n')
+}
+
+/**
+ * Table of embedded rows: row number, key column (when given) and the
+ * embedding as a JSON array
+ */
+export function embeddingsToTable(
+  vectors: (number[] | null)[],
+  keys: string[] | null,
+  keyColumn: string | null,
+): string[][] {
+  const header = ['row', ...(keyColumn ? [keyColumn] : []), 'embedding']
+  const rows = vectors.flatMap((vector, index) =>
+    vector
+      ? [[String(index + 1), ...(keys ? [keys[index] ?? ''] : []), JSON.stringify(vector)]]
+      : [],
+  )
+  return [header, ...rows]
+}
@@ -0,0 +1,137 @@
+// Text preprocessing applied to the comparison or analysis text before it is
+// embedded. Markup, URLs, signatures and casing otherwise dominate the
+// similarity of exported texts.
+
+export type PreprocessingStep =
+  | 'stripHtml'
+  | 'normalizeUnicode'
+  | 'removeUrls'
+  | 'removeEmails'
+  | 'lowercase'
+  | 'collapseWhitespace'
+
+// Custom regular expression replacement, applied after the built-in cleanup
+// steps and before lowercasing
+export interface RegexReplacement {
+  pattern: string
+  flags: string
+  replacement: string
+}
+
+export interface PreprocessingOptions {
+  steps: Record<PreprocessingStep, boolean>
+  replacements: RegexReplacement[]
+}
+
+// Steps in the order they are applied
+export const PREPROCESSING_STEPS: { value: PreprocessingStep; label: string }[] = [
+  { value: 'stripHtml', label: 'Strip HTML' },
+  { value: 'normalizeUnicode', label: 'Normalize Unicode (NFKC)' },
+  { value: 'removeUrls', label: 'Remove URLs' },
+  { value: 'removeEmails', label: 'Remove email addresses' },
+  { value: 'lowercase', label: 'Lowercase' },
+  { value: 'collapseWhitespace', label: 'Collapse whitespace' },
+]
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  steps: {
+    stripHtml: false,
+    normalizeUnicode: false,
+    removeUrls: false,
+    removeEmails: false,
+    lowercase: false,
+    collapseWhitespace: false,
+  },
+  replacements: [],
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g
+
+function stripHtml(text: string): string {
+  return text
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(br|p|div|li|tr|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      const lower = code.toLowerCase()
+      if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16))
+      if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10))
+      return HTML_ENTITIES[lower] ?? entity
+    })
+}
+
+/**
+ * Compile a custom replacement, or return the error message of an invalid
+ * pattern. Replacements always apply globally.
+ */
+export function compileReplacement(replacement: RegexReplacement): RegExp | string {
+  try {
+    const flags = replacement.flags.includes('g') ? replacement.flags : replacement.flags + 'g'
+    return new RegExp(replacement.pattern, flags)
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern'
+  }
+}
+
+/**
+ * Run the enabled steps on a text. Empty patterns and invalid patterns are
+ * skipped.
+ */
+export function preprocessText(text: string, options: PreprocessingOptions): string {
+  const { steps } = options
+  let result = text
+
+  if (steps.stripHtml) result = stripHtml(result)
+  if (steps.normalizeUnicode) result = result.normalize('NFKC')
+  if (steps.removeUrls) result = result.replace(URL_PATTERN, ' ')
+  if (steps.removeEmails) result = result.replace(EMAIL_PATTERN, ' ')
+
+  for (const replacement of options.replacements) {
+    if (!replacement.pattern) continue
+    const pattern = compileReplacement(replacement)
+    if (typeof pattern !== 'string') result = result.replace(pattern, replacement.replacement)
+  }
+
+  if (steps.lowercase) result = result.toLowerCase()
+  if (steps.collapseWhitespace) result = result.replace(/\s+/g, ' ').trim()
+
+  return result
+}
+
+export function isPreprocessingActive(options: PreprocessingOptions): boolean {
+  return (
+    PREPROCESSING_STEPS.some((step) => options.steps[step.value]) ||
+    options.replacements.some((replacement) => replacement.pattern !== '')
+  )
+}
+
+/**
+ * Human-readable list of the applied steps, in order
+ */
+export function describePreprocessing(options: PreprocessingOptions): string[] {
+  const description: string[] = []
+  for (const step of PREPROCESSING_STEPS) {
+    if (step.value === 'lowercase') {
+      // Replacements run just before lowercasing
+      for (const replacement of options.replacements) {
+        if (!replacement.pattern || typeof compileReplacement(replacement) === 'string') continue
+        description.push(
+          `Replace /${replacement.pattern}/${replacement.flags} with "${replacement.replacement}"`,
+        )
+      }
+    }
+    if (options.steps[step.value]) description.push(step.label)
+  }
+  return description
+}
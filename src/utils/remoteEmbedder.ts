@@ -0,0 +1,155 @@
+import type { Embedder } from './embedder'
+import type { ModelDescriptor } from './models'
+
+// Embedder that calls an embedding server speaking the OpenAI
+// `POST <base URL>/embeddings` API: Ollama, a llama.cpp server, vLLM, or
+// OpenAI itself. Texts are sent in batches; failed requests (network errors,
+// 429 and 5xx) are retried with exponential backoff, and requests are spaced
+// out to stay under the configured rate limit.
+
+export interface EndpointOptions {
+  // Model name the server knows, e.g. nomic-embed-text for Ollama
+  model: string
+  // Texts per request
+  batchSize: number
+  // Retries of a failed request before giving up
+  maxRetries: number
+  // Requests per minute; 0 for no limit
+  requestsPerMinute: number
+  // Sent as a bearer token when set
+  apiKey?: string
+  // Save the key in localStorage with the model; otherwise it is kept for the
+  // session only
+  rememberApiKey?: boolean
+}
+
+export const DEFAULT_ENDPOINT_OPTIONS: Omit<EndpointOptions, 'model'> = {
+  batchSize: 64,
+  maxRetries: 3,
+  requestsPerMinute: 0,
+}
+
+// First retry waits this long, then twice as long each time
+const RETRY_BASE_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30000
+
+interface EmbeddingsResponse {
+  data: { embedding: number[]; index: number }[]
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+// Retry-After in seconds, when the server sent one
+function retryAfterMs(response: Response): number | null {
+  const seconds = Number(response.headers.get('Retry-After'))
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+/**
+ * Embeddings URL of a server base URL such as http://localhost:11434/v1
+ */
+export function embeddingsUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/embeddings`
+}
+
+export function createRemoteEmbedder(descriptor: ModelDescriptor): Embedder {
+  if (!descriptor.host || !descriptor.endpoint) {
+    throw new Error(`${descriptor.id} has no embedding server configured`)
+  }
+  const url = embeddingsUrl(descriptor.host)
+  const options = { ...DEFAULT_ENDPOINT_OPTIONS, ...descriptor.endpoint }
+  const minInterval = options.requestsPerMinute > 0 ? 60000 / options.requestsPerMinute : 0
+  let nextRequestAt = 0
+  let dimensions = descriptor.dimensions
+
+  async function throttle() {
+    const now = Date.now()
+    const start = Math.max(now, nextRequestAt)
+    nextRequestAt = start + minInterval
+    if (start > now) await wait(start - now)
+  }
+
+  async function request(texts: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      await throttle()
+      const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS)
+
+      let response: Response
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model: options.model, input: texts }),
+        })
+      } catch (error) {
+        // Network error or CORS rejection
+        if (attempt >= options.maxRetries) {
+          throw new Error(
+            `Cannot reach ${url}: ${error instanceof Error ? error.message : 'request failed'}`,
+          )
+        }
+        console.warn(`[Embeddings] Request failed, retrying in ${backoff} ms:`, error)
+        await wait(backoff)
+        continue
+      }
+
+      if (response.ok) {
+        const body = (await response.json()) as EmbeddingsResponse
+        if (!Array.isArray(body.data) || body.data.length !== texts.length) {
+          throw new Error(
+            `${url} returned ${body.data?.length ?? 0} embeddings for ${texts.length} texts`,
+          )
+        }
+        return [...body.data]
+          .sort((a, b) => a.index - b.index)
+          .map((entry) => normalize(entry.embedding))
+      }
+
+      if (!isRetryable(response.status) || attempt >= options.maxRetries) {
+        const detail = (await response.text()).slice(0, 200)
+        throw new Error(`${url} answered ${response.status}${detail ? `: ${detail}` : ''}`)
+      }
+      const delay = retryAfterMs(response) ?? backoff
+      console.warn(`[Embeddings] Server answered ${response.status}, retrying in ${delay} ms`)
+      await wait(delay)
+    }
+  }
+
+  return {
+    name: descriptor.id,
+    get dimensions() {
+      return dimensions
+    },
+    tokenizer: null,
+    backend: null,
+
+    // Embed one word to check the server and model before the real work
+    async initialize() {
+      const [probe] = await request(['test'])
+      dimensions = probe!.length
+      console.log(`[Embeddings] Connected to ${url} (${options.model}, ${dimensions} dimensions)`)
+    },
+
+    async embedBatch(texts) {
+      const embeddings: number[][] = []
+      for (let start = 0; start < texts.length; start += options.batchSize) {
+        embeddings.push(...(await request(texts.slice(start, start + options.batchSize))))
+      }
+      return embeddings
+    },
+  }
+}
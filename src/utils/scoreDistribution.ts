@@ -0,0 +1,77 @@
+// Score distribution helpers. Raw cosine scores are not comparable between
+// models (one model's 0.7 is another's 0.9), so cut-offs come from the data.
+
+export interface HistogramBin {
+  start: number
+  end: number
+  count: number
+}
+
+export interface Histogram {
+  min: number
+  max: number
+  bins: HistogramBin[]
+}
+
+// Percentiles the "high" and "medium" colour bands start at
+export const HIGH_SCORE_PERCENTILE = 0.9
+export const MEDIUM_SCORE_PERCENTILE = 0.5
+
+export interface ScoreBandCutoffs {
+  high: number
+  medium: number
+}
+
+/**
+ * Equal-width histogram between the lowest and highest score
+ */
+export function buildHistogram(scores: number[], binCount: number): Histogram {
+  if (scores.length === 0) {
+    return { min: 0, max: 1, bins: [] }
+  }
+
+  let min = Infinity
+  let max = -Infinity
+  for (const score of scores) {
+    if (score < min) min = score
+    if (score > max) max = score
+  }
+  // A single distinct score still gets a bin of non-zero width
+  const width = (max - min || 1e-6) / binCount
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }))
+  for (const score of scores) {
+    const index = Math.min(Math.floor((score - min) / width), binCount - 1)
+    bins[index]!.count++
+  }
+
+  return { min, max, bins }
+}
+
+/**
+ * Value below which a fraction `p` of the sorted (ascending) scores fall,
+ * linearly interpolated
+ */
+export function percentile(sortedScores: number[], p: number): number {
+  if (sortedScores.length === 0) return 0
+  const position = (sortedScores.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  const fraction = position - lower
+  return sortedScores[lower]! + (sortedScores[upper]! - sortedScores[lower]!) * fraction
+}
+
+/**
+ * Colour band cut-offs at fixed percentiles of the score distribution
+ */
+export function computeScoreBandCutoffs(scores: number[]): ScoreBandCutoffs {
+  const sorted = [...scores].sort((a, b) => a - b)
+  return {
+    high: percentile(sorted, HIGH_SCORE_PERCENTILE),
+    medium: percentile(sorted, MEDIUM_SCORE_PERCENTILE),
+  }
+}
@@ -1,3 +1,5 @@
+import type { LexicalScores } from './lexicalSimilarity'
+
 export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (vecA.length !== vecB.length) {
     throw new Error('Vectors must have the same length')
@@ -22,71 +24,376 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   return dotProduct / denominator
 }
 
+// Which uploaded dataset a row index refers to
+export type DatasetSide = 'A' | 'B'
+
 export interface SimilarityPair {
   rowIndexA: number
   rowIndexB: number
+  sourceA: DatasetSide
+  sourceB: DatasetSide
   score: number
+  // 1-based position among the row's best matches (top-K mode only)
+  rank?: number
+  // Embedding-only score when `score` blends in lexical measures (hybrid scoring only)
+  semanticScore?: number
+  // Lexical measures blended into `score`, those with a weight (hybrid scoring only)
+  lexicalScores?: Partial<LexicalScores>
 }
 
-// CPU fallback implementation
-function calculatePairwiseSimilaritiesCPU(
-  embeddings: number[][],
-  excludeSelfComparison = true,
-  onProgress?: (current: number, total: number) => void,
-): SimilarityPair[] {
-  const results: SimilarityPair[] = []
-  const n = embeddings.length
-  const totalPairs = (n * (n - 1)) / 2
-  let pairsProcessed = 0
+// 'all' keeps every scored pair, 'topK' keeps only the best K matches per row
+export type ResultMode = 'all' | 'topK'
 
-  for (let i = 0; i < embeddings.length; i++) {
-    for (let j = i + 1; j < embeddings.length; j++) {
-      // Skip self-comparison (though j starts at i+1, so this is already excluded)
-      if (excludeSelfComparison && i === j) {
-        continue
-      }
+// Most matches per row in top-K mode; the GPU top-K kernel keeps this many
+export const MAX_TOP_K = 100
 
-      const score = cosineSimilarity(embeddings[i]!, embeddings[j]!)
-      results.push({
-        rowIndexA: i,
-        rowIndexB: j,
-        score,
-      })
+export interface SimilarityOptions {
+  // Keep only the best K matches per row instead of every pair
+  topK?: number
+  // Pairs scoring below this are never kept
+  minScore?: number
+}
+
+// Per-column embeddings of one dataset: one entry per comparison column holding
+// a vector per row, or null where that row's cell is empty
+export type ColumnEmbeddings = (number[] | null)[][]
 
-      pairsProcessed++
-      if (onProgress && pairsProcessed % 100 === 0) {
-        onProgress(pairsProcessed, totalPairs)
+// Pairs to score when not every pair is wanted (see pairConstraints.ts).
+// `forEach` visits (row of A, row of B) index pairs; `total` is their count.
+export interface PairCandidates {
+  total: number
+  forEach(visit: (i: number, j: number) => void): void
+}
+
+// Bounded min-heaps (one per row) holding the best K neighbours seen so far.
+// Memory is numRows * k regardless of how many pairs are scanned.
+class NeighbourHeaps {
+  private readonly scores: Float64Array
+  private readonly indices: Int32Array
+  private readonly counts: Int32Array
+
+  constructor(
+    private readonly numRows: number,
+    private readonly k: number,
+  ) {
+    this.scores = new Float64Array(numRows * k)
+    this.indices = new Int32Array(numRows * k)
+    this.counts = new Int32Array(numRows)
+  }
+
+  offer(row: number, neighbour: number, score: number) {
+    const base = row * this.k
+    const count = this.counts[row]!
+
+    if (count < this.k) {
+      // Append and sift up
+      let pos = count
+      while (pos > 0) {
+        const parent = (pos - 1) >> 1
+        if (this.scores[base + parent]! <= score) break
+        this.scores[base + pos] = this.scores[base + parent]!
+        this.indices[base + pos] = this.indices[base + parent]!
+        pos = parent
       }
+      this.scores[base + pos] = score
+      this.indices[base + pos] = neighbour
+      this.counts[row] = count + 1
+      return
     }
+
+    // Heap is full: replace the weakest neighbour if this one is better, then sift down
+    if (score <= this.scores[base]!) return
+
+    let pos = 0
+    while (true) {
+      const left = pos * 2 + 1
+      if (left >= this.k) break
+      const right = left + 1
+      const child =
+        right < this.k && this.scores[base + right]! < this.scores[base + left]! ? right : left
+      if (this.scores[base + child]! >= score) break
+      this.scores[base + pos] = this.scores[base + child]!
+      this.indices[base + pos] = this.indices[base + child]!
+      pos = child
+    }
+    this.scores[base + pos] = score
+    this.indices[base + pos] = neighbour
   }
 
-  if (onProgress) {
-    onProgress(totalPairs, totalPairs)
+  // Flatten into pairs grouped by row, best match first within each row
+  toPairs(sourceA: DatasetSide, sourceB: DatasetSide): SimilarityPair[] {
+    const results: SimilarityPair[] = []
+
+    for (let row = 0; row < this.numRows; row++) {
+      const base = row * this.k
+      const neighbours: SimilarityPair[] = []
+      for (let n = 0; n < this.counts[row]!; n++) {
+        neighbours.push({
+          rowIndexA: row,
+          rowIndexB: this.indices[base + n]!,
+          sourceA,
+          sourceB,
+          score: this.scores[base + n]!,
+        })
+      }
+      neighbours.sort((a, b) => b.score - a.score)
+      neighbours.forEach((pair, index) => {
+        pair.rank = index + 1
+        results.push(pair)
+      })
+    }
+
+    return results
   }
+}
 
-  // Sort by score in descending order
-  return results.sort((a, b) => b.score - a.score)
+// CPU fallback implementation. Pairs are i < j, so a row is never compared
+// with itself.
+function calculatePairwiseSimilaritiesCPU(
+  embeddings: number[][],
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+): SimilarityPair[] {
+  const unit = embeddings.map(toUnitVector)
+  return collectPairs(
+    embeddings.length,
+    false,
+    allPairs(embeddings.length, embeddings.length, false),
+    (i, j) => dot(unit[i]!, unit[j]!),
+    onProgress,
+    options,
+  )
 }
 
 export async function calculatePairwiseSimilarities(
   embeddings: number[][],
-  excludeSelfComparison = true,
   onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
 ): Promise<SimilarityPair[]> {
   // Try WebGPU first for better performance
   try {
-    const { calculateSimilaritiesOnGPU, initializeWebGPU } = await import('./webgpuSimilarity')
+    const { calculateSimilaritiesOnGPU, calculateNeighboursOnGPU, initializeWebGPU } = await import(
+      './webgpuSimilarity'
+    )
     const initialized = await initializeWebGPU()
 
     if (initialized) {
       console.log('[Similarity] Using WebGPU acceleration')
-      return await calculateSimilaritiesOnGPU(embeddings, onProgress)
+      if (options.topK) {
+        return await calculateNeighboursOnGPU(embeddings, null, options, onProgress)
+      }
+      return await calculateSimilaritiesOnGPU(embeddings, onProgress, options)
     }
   } catch (error) {
-    console.log('[Similarity] WebGPU not available, falling back to CPU:', error)
+    console.warn('[Similarity] WebGPU unavailable or failed, falling back to CPU:', error)
   }
 
   // Fallback to CPU
   console.log('[Similarity] Using CPU calculation')
-  return calculatePairwiseSimilaritiesCPU(embeddings, excludeSelfComparison, onProgress)
+  return calculatePairwiseSimilaritiesCPU(embeddings, onProgress, options)
+}
+
+// CPU fallback for scoring every row of dataset A against every row of dataset B
+function calculateCrossSimilaritiesCPU(
+  embeddingsA: number[][],
+  embeddingsB: number[][],
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+): SimilarityPair[] {
+  const unitA = embeddingsA.map(toUnitVector)
+  const unitB = embeddingsB.map(toUnitVector)
+  return collectPairs(
+    embeddingsA.length,
+    true,
+    allPairs(embeddingsA.length, embeddingsB.length, true),
+    (i, j) => dot(unitA[i]!, unitB[j]!),
+    onProgress,
+    options,
+  )
+}
+
+export async function calculateCrossSimilarities(
+  embeddingsA: number[][],
+  embeddingsB: number[][],
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+): Promise<SimilarityPair[]> {
+  try {
+    const { calculateCrossSimilaritiesOnGPU, calculateNeighboursOnGPU, initializeWebGPU } =
+      await import('./webgpuSimilarity')
+    const initialized = await initializeWebGPU()
+
+    if (initialized) {
+      console.log('[Similarity] Using WebGPU acceleration for cross-file comparison')
+      if (options.topK) {
+        return await calculateNeighboursOnGPU(embeddingsA, embeddingsB, options, onProgress)
+      }
+      return await calculateCrossSimilaritiesOnGPU(embeddingsA, embeddingsB, onProgress, options)
+    }
+  } catch (error) {
+    console.warn('[Similarity] WebGPU unavailable or failed, falling back to CPU:', error)
+  }
+
+  console.log('[Similarity] Using CPU calculation for cross-file comparison')
+  return calculateCrossSimilaritiesCPU(embeddingsA, embeddingsB, onProgress, options)
+}
+
+// Every pair: A x B in cross-file mode, i < j within A otherwise
+function allPairs(numRowsA: number, numRowsB: number, crossMode: boolean): PairCandidates {
+  return {
+    total: crossMode ? numRowsA * numRowsB : (numRowsA * (numRowsA - 1)) / 2,
+    forEach(visit) {
+      for (let i = 0; i < numRowsA; i++) {
+        for (let j = crossMode ? 0 : i + 1; j < numRowsB; j++) {
+          visit(i, j)
+        }
+      }
+    },
+  }
+}
+
+// Score the candidate pairs on the CPU and keep them according to the result
+// options. `score` returns null for pairs that cannot be scored.
+function collectPairs(
+  numRowsA: number,
+  crossMode: boolean,
+  candidates: PairCandidates,
+  score: (i: number, j: number) => number | null,
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+): SimilarityPair[] {
+  const totalPairs = candidates.total
+  const minScore = options.minScore ?? -Infinity
+  const heaps = options.topK ? new NeighbourHeaps(numRowsA, options.topK) : null
+  const results: SimilarityPair[] = []
+  let pairsProcessed = 0
+
+  candidates.forEach((i, j) => {
+    const value = score(i, j)
+    if (value !== null && value >= minScore) {
+      if (heaps) {
+        heaps.offer(i, j, value)
+        // Within one file a pair is a candidate neighbour for both of its rows
+        if (!crossMode) heaps.offer(j, i, value)
+      } else {
+        results.push({
+          rowIndexA: i,
+          rowIndexB: j,
+          sourceA: 'A',
+          sourceB: crossMode ? 'B' : 'A',
+          score: value,
+        })
+      }
+    }
+
+    pairsProcessed++
+    if (onProgress && pairsProcessed % 100 === 0) {
+      onProgress(pairsProcessed, totalPairs)
+    }
+  })
+
+  if (onProgress) {
+    onProgress(totalPairs, totalPairs)
+  }
+
+  if (heaps) {
+    return heaps.toPairs('A', crossMode ? 'B' : 'A')
+  }
+
+  return results.sort((a, b) => b.score - a.score)
+}
+
+// Unit-length copy so cosine similarity is a plain dot product
+function toUnitVector(vector: number[]): Float32Array {
+  let norm = 0
+  for (const value of vector) norm += value * value
+  norm = Math.sqrt(norm)
+  const unit = new Float32Array(vector.length)
+  if (norm > 0) {
+    for (let d = 0; d < vector.length; d++) unit[d] = vector[d]! / norm
+  }
+  return unit
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let d = 0; d < a.length; d++) sum += a[d]! * b[d]!
+  return sum
+}
+
+/**
+ * Score only the given candidate pairs (e.g. rows that pass pair constraints).
+ * Pass `embeddingsB = null` to compare the rows of A with each other. Runs on
+ * the CPU since candidates are irregular.
+ */
+export function calculateCandidateSimilarities(
+  embeddingsA: number[][],
+  embeddingsB: number[][] | null,
+  candidates: PairCandidates,
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+): SimilarityPair[] {
+  console.log(`[Similarity] Scoring ${candidates.total} constrained pairs on CPU`)
+
+  const unitA = embeddingsA.map(toUnitVector)
+  const unitB = embeddingsB ? embeddingsB.map(toUnitVector) : unitA
+  return collectPairs(
+    embeddingsA.length,
+    embeddingsB !== null,
+    candidates,
+    (i, j) => dot(unitA[i]!, unitB[j]!),
+    onProgress,
+    options,
+  )
+}
+
+/**
+ * Score pairs as the weighted average of per-column cosine similarities. Only
+ * columns where both rows have a value count towards the average, so an empty
+ * cell neither adds nor subtracts; pairs sharing no non-empty column are skipped.
+ * Column c of A is compared with column c of B. Pass `columnsB = null` to
+ * compare the rows of A with each other, and `candidates` to score only some
+ * pairs. Runs on the CPU.
+ */
+export function calculateWeightedColumnSimilarities(
+  columnsA: ColumnEmbeddings,
+  columnsB: ColumnEmbeddings | null,
+  weights: number[],
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+  candidates?: PairCandidates,
+): SimilarityPair[] {
+  console.log('[Similarity] Using CPU calculation for per-column comparison')
+
+  const crossMode = columnsB !== null
+  const toUnitColumn = (column: (number[] | null)[]) =>
+    column.map((vector) => (vector ? toUnitVector(vector) : null))
+  const unitA = columnsA.map(toUnitColumn)
+  const unitB = crossMode ? columnsB.map(toUnitColumn) : unitA
+  const activeColumns = weights
+    .map((weight, c) => ({ weight, c }))
+    .filter(({ weight, c }) => weight > 0 && unitA[c] && unitB[c])
+
+  const numRowsA = unitA[0]?.length ?? 0
+  const numRowsB = unitB[0]?.length ?? 0
+
+  return collectPairs(
+    numRowsA,
+    crossMode,
+    candidates ?? allPairs(numRowsA, numRowsB, crossMode),
+    (i, j) => {
+      let weighted = 0
+      let totalWeight = 0
+      for (const { weight, c } of activeColumns) {
+        const vecA = unitA[c]![i]
+        const vecB = unitB[c]![j]
+        if (!vecA || !vecB) continue
+        weighted += weight * dot(vecA, vecB)
+        totalWeight += weight
+      }
+      return totalWeight > 0 ? weighted / totalWeight : null
+    },
+    onProgress,
+    options,
+  )
 }
@@ -0,0 +1,97 @@
+import type { CsvRow } from './csvParser'
+
+// Text composition templates such as "Product: {name}\nBrand: {brand}". Each
+// {column} is replaced by the row's value, so the embedding input keeps column
+// names and structure instead of a bare space-joined list of values.
+
+const PLACEHOLDER_PATTERN = /\{([^{}\n]+)\}/g
+const STORAGE_KEY = 'compear:textTemplates'
+
+/**
+ * Column names referenced by a template, in order of first use
+ */
+export function templateColumns(template: string): string[] {
+  const columns = new Set<string>()
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    columns.add(match[1]!.trim())
+  }
+  return [...columns]
+}
+
+/**
+ * Referenced columns that are not among the headers
+ */
+export function unknownTemplateColumns(template: string, headers: string[]): string[] {
+  const known = new Set(headers)
+  return templateColumns(template).filter((column) => !known.has(column))
+}
+
+/**
+ * One "Column: {column}" line per column
+ */
+export function defaultTemplate(columns: string[]): string {
+  return columns.map((column) => `${column}: {${column}}`).join('\n')
+}
+
+/**
+ * Fill in a template for one row. Lines whose placeholders are all empty are
+ * dropped, and a row with no values at all renders as an empty string.
+ */
+export function renderTemplate(template: string, row: CsvRow): string {
+  let hasValue = false
+  const lines: string[] = []
+
+  for (const line of template.split('\n')) {
+    let placeholders = 0
+    let filled = 0
+    const rendered = line.replace(PLACEHOLDER_PATTERN, (_, column: string) => {
+      const value = (row[column.trim()] ?? '').trim()
+      placeholders++
+      if (value) filled++
+      return value
+    })
+    if (placeholders > 0 && filled === 0) continue
+    if (filled > 0) hasValue = true
+    lines.push(rendered)
+  }
+
+  return hasValue ? lines.join('\n').trim() : ''
+}
+
+// Templates are remembered per set of column names, so a file with the same
+// columns gets its template back
+function headerSignature(headers: string[]): string {
+  return JSON.stringify([...headers].sort())
+}
+
+function readSavedTemplates(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function loadSavedTemplate(headers: string[]): string | null {
+  if (typeof localStorage === 'undefined') return null
+  return readSavedTemplates()[headerSignature(headers)] ?? null
+}
+
+/**
+ * Remember a template for these headers; `null` forgets it
+ */
+export function saveTemplate(headers: string[], template: string | null) {
+  if (typeof localStorage === 'undefined') return
+  const saved = readSavedTemplates()
+  const signature = headerSignature(headers)
+  if (template === null) {
+    delete saved[signature]
+  } else {
+    saved[signature] = template
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved))
+  } catch (error) {
+    console.warn('[TextTemplate] Failed to save template:', error)
+  }
+}
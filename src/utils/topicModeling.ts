@@ -1,71 +1,35 @@
-import { pipeline, env, type PipelineType } from '@huggingface/transformers'
 import {
   initializeWebGPU,
   isWebGPUAvailableForSimilarity,
   kMeansClusteringGPU,
   hierarchicalClusteringGPU,
 } from './webgpuSimilarity'
+import { DEFAULT_BATCH_SIZE, embedInBatches } from './batching'
+import { DEFAULT_MODEL, getModelDescriptor, prefixText, type ModelName } from './models'
+import { cacheVariant, embedWithCache } from './embeddingCache'
+import { createEmbedder, type Embedder } from './embedder'
+import type { EmbedderBackend } from './backendSettings'
+import {
+  chunkTokenBudget,
+  embedChunked,
+  type ChunkedEmbeddings,
+  type ChunkingOptions,
+} from './chunking'
 
-// Configure to use local models (cached in browser)
-env.allowLocalModels = false
-
-// Detect WebGPU availability
-let deviceConfig: { device?: 'webgpu' } = {}
-let deviceDetected = false
-
-async function detectWebGPU() {
-  if (deviceDetected) return
-  deviceDetected = true
-
-  if (typeof navigator !== 'undefined' && 'gpu' in navigator) {
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const adapter = await (navigator as any).gpu?.requestAdapter()
-      if (adapter) {
-        deviceConfig = { device: 'webgpu' }
-        console.log('[TopicModeling] WebGPU acceleration enabled')
-        return
-      }
-    } catch (error) {
-      console.warn('[TopicModeling] WebGPU not available, falling back to WASM:', error)
-    }
-  }
-
-  // Fallback to WASM
-  if (env.backends?.onnx?.wasm) {
-    env.backends.onnx.wasm.numThreads = 1
-  }
-}
-
-// Available models optimized for semantic similarity and topic modeling
-export const AVAILABLE_MODELS = [
-  'Xenova/bge-small-en-v1.5',
-  'onnx-community/Qwen3-Embedding-0.6B-ONNX',
-  'Xenova/all-MiniLM-L6-v2',
-  'Xenova/all-MiniLM-L12-v2',
-  'nomic-ai/nomic-embed-text-v1.5',
-] as const
-
-export type ModelName = (typeof AVAILABLE_MODELS)[number]
 export type ClusteringMethod = 'kmeans' | 'hierarchical'
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let embeddingPipeline: any | null = null
+let embedder: Embedder | null = null
 let currentModel: ModelName | null = null
 let isInitializing = false
 let initializationPromise: Promise<void> | null = null
 
-export async function initializeModel(
-  modelName: ModelName = 'Xenova/bge-small-en-v1.5',
-): Promise<void> {
-  await detectWebGPU()
-
-  if (embeddingPipeline && currentModel === modelName) {
+export async function initializeModel(modelName: ModelName = DEFAULT_MODEL): Promise<void> {
+  if (embedder && currentModel === modelName) {
     return
   }
 
   if (currentModel && currentModel !== modelName) {
-    embeddingPipeline = null
+    embedder = null
     currentModel = null
   }
 
@@ -76,13 +40,11 @@ export async function initializeModel(
   isInitializing = true
   initializationPromise = (async () => {
     try {
-      embeddingPipeline = await pipeline(
-        'feature-extraction' as PipelineType,
-        modelName,
-        deviceConfig.device ? { device: deviceConfig.device } : {},
-      )
+      const next = createEmbedder(getModelDescriptor(modelName))
+      await next.initialize()
+      embedder = next
       currentModel = modelName
-      console.log(`[TopicModeling] Model loaded: ${modelName} on ${deviceConfig.device || 'cpu'}`)
+      console.log(`[TopicModeling] Model loaded: ${modelName}`)
     } finally {
       isInitializing = false
     }
@@ -92,43 +54,59 @@ export async function initializeModel(
 }
 
 export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!embeddingPipeline) {
+  if (!embedder || !currentModel) {
     throw new Error('Model not initialized. Call initializeModel() first.')
   }
 
-  const output = await embeddingPipeline(text, {
-    pooling: 'mean',
-    normalize: true,
-    ...deviceConfig,
-  })
-
-  const tensor = output as { data: Float32Array }
-  return Array.from(tensor.data)
+  const [embedding] = await embedder.embedBatch([prefixText(currentModel, text)])
+  return embedding!
 }
 
+// One embedding per text, in input order. Callers decide what to do with empty
+// texts (see emptyRows.ts) so results stay aligned with their rows. Texts get
+// the model's document prefix.
 export async function generateEmbeddings(
   texts: string[],
   modelName: ModelName,
   onProgress?: (current: number, total: number) => void,
+  batchSize: number = DEFAULT_BATCH_SIZE,
 ): Promise<number[][]> {
   await initializeModel(modelName)
 
-  const embeddings: number[][] = []
-  const total = texts.length
-
-  for (let i = 0; i < texts.length; i++) {
-    const text = texts[i]
-    if (!text) continue
-
-    const embedding = await generateEmbedding(text)
-    embeddings.push(embedding)
+  const current = embedder!
+  const descriptor = getModelDescriptor(modelName)
+  return embedWithCache(
+    modelName,
+    descriptor.pooling,
+    cacheVariant(descriptor, current.backend),
+    texts.map((text) => prefixText(modelName, text)),
+    (missing, onBatch) => embedInBatches(current, missing, batchSize, onBatch),
+    onProgress,
+  )
+}
 
-    if (onProgress) {
-      onProgress(i + 1, total)
-    }
-  }
+// Split long texts into overlapping chunks, embed every chunk and pool them
+// into one vector per text
+export async function generateChunkedEmbeddings(
+  texts: string[],
+  modelName: ModelName,
+  chunking: ChunkingOptions,
+  onProgress?: (current: number, total: number) => void,
+  batchSize: number = DEFAULT_BATCH_SIZE,
+): Promise<ChunkedEmbeddings> {
+  await initializeModel(modelName)
 
-  return embeddings
+  // Chunks longer than the model reads (with the prefix and special tokens)
+  // would still be truncated
+  const { maxTokens, documentPrefix } = getModelDescriptor(modelName)
+  const budget = chunkTokenBudget(embedder!.tokenizer, maxTokens, documentPrefix)
+  return embedChunked(
+    embedder!.tokenizer,
+    texts,
+    { ...chunking, chunkTokens: Math.min(chunking.chunkTokens, budget) },
+    (chunks, onChunkProgress) => generateEmbeddings(chunks, modelName, onChunkProgress, batchSize),
+    onProgress,
+  )
 }
 
 // Cosine similarity between two vectors
@@ -149,7 +127,7 @@ function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 // K-means clustering
-interface Cluster {
+export interface Cluster {
   centroid: number[]
   documentIndices: number[]
   coherence?: number
@@ -495,9 +473,15 @@ export function extractTopKeywords(texts: string[], topN: number = 10): string[]
 }
 
 export function isModelReady(): boolean {
-  return embeddingPipeline !== null
+  return embedder !== null
 }
 
 export function getCurrentModel(): ModelName | null {
   return currentModel
 }
+
+// Device, dtype and threads the loaded model runs on (null for models that do
+// not run in the browser's ONNX runtime)
+export function getLoadedBackend(): EmbedderBackend | null {
+  return embedder?.backend ?? null
+}
@@ -1,4 +1,4 @@
-import type { SimilarityPair } from './similarity'
+import { MAX_TOP_K, type SimilarityOptions, type SimilarityPair } from './similarity'
 
 let gpuDevice: GPUDevice | null = null
 let isWebGPUAvailable = false
@@ -6,7 +6,7 @@ let isWebGPUAvailable = false
 export async function initializeWebGPU(): Promise<boolean> {
   if (gpuDevice) return true
 
-  if (!navigator.gpu) {
+  if (typeof navigator === 'undefined' || !navigator.gpu) {
     console.log('[WebGPU Similarity] WebGPU not supported')
     return false
   }
@@ -18,8 +18,18 @@ export async function initializeWebGPU(): Promise<boolean> {
       return false
     }
 
-    gpuDevice = await adapter.requestDevice()
+    const device = await adapter.requestDevice()
+    gpuDevice = device
     isWebGPUAvailable = true
+
+    // Drop a lost device so the next call re-initializes (or falls back to CPU)
+    device.lost.then((info) => {
+      console.warn('[WebGPU Similarity] Device lost:', info.message)
+      if (gpuDevice === device) {
+        gpuDevice = null
+        isWebGPUAvailable = false
+      }
+    })
     console.log('[WebGPU Similarity] WebGPU initialized for similarity calculations')
     return true
   } catch (error) {
@@ -28,78 +38,292 @@ export async function initializeWebGPU(): Promise<boolean> {
   }
 }
 
-const computeShaderCode = `
+// Upper bound for one tile's result buffer, on top of the device's own limits
+const MAX_TILE_BYTES = 64 * 1024 * 1024
+
+// Workgroup edge length of the tiled similarity kernel (16 x 16 invocations)
+const TILE_WORKGROUP_SIZE = 16
+
+// Tiled similarity shader: scores one block of the similarity matrix per dispatch.
+// Each invocation handles one (row, column) cell of the tile, so no pair index has
+// to be converted back into (i, j).
+const tiledShaderCode = `
 struct Params {
-  numVectors: u32,
+  rowStart: u32,
+  colStart: u32,
+  tileRows: u32,
+  tileCols: u32,
   vectorDim: u32,
-  totalPairs: u32,
+  upperTriangle: u32,
 }
 
-@group(0) @binding(0) var<storage, read> embeddings: array<f32>;
-@group(0) @binding(1) var<storage, read_write> results: array<f32>;
-@group(0) @binding(2) var<uniform> params: Params;
+@group(0) @binding(0) var<storage, read> embeddingsA: array<f32>;
+@group(0) @binding(1) var<storage, read> embeddingsB: array<f32>;
+@group(0) @binding(2) var<storage, read_write> results: array<f32>;
+@group(0) @binding(3) var<uniform> params: Params;
+
+@compute @workgroup_size(${TILE_WORKGROUP_SIZE}, ${TILE_WORKGROUP_SIZE})
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  let localRow = global_id.y;
+  let localCol = global_id.x;
+
+  if (localRow >= params.tileRows || localCol >= params.tileCols) {
+    return;
+  }
+
+  let i = params.rowStart + localRow;
+  let j = params.colStart + localCol;
+
+  // Within one file only pairs with i < j are scored
+  if (params.upperTriangle == 1u && j <= i) {
+    return;
+  }
+
+  let offsetA = i * params.vectorDim;
+  let offsetB = j * params.vectorDim;
 
-fn cosineSimilarity(indexA: u32, indexB: u32) -> f32 {
   var dotProduct: f32 = 0.0;
   var normA: f32 = 0.0;
   var normB: f32 = 0.0;
 
-  let offsetA = indexA * params.vectorDim;
-  let offsetB = indexB * params.vectorDim;
-
-  for (var i: u32 = 0u; i < params.vectorDim; i = i + 1u) {
-    let valA = embeddings[offsetA + i];
-    let valB = embeddings[offsetB + i];
+  for (var d: u32 = 0u; d < params.vectorDim; d = d + 1u) {
+    let valA = embeddingsA[offsetA + d];
+    let valB = embeddingsB[offsetB + d];
     dotProduct += valA * valB;
     normA += valA * valA;
     normB += valB * valB;
   }
 
   let denominator = sqrt(normA) * sqrt(normB);
-  if (denominator == 0.0) {
-    return 0.0;
+  var score: f32 = 0.0;
+  if (denominator != 0.0) {
+    score = dotProduct / denominator;
   }
 
-  return dotProduct / denominator;
+  results[localRow * params.tileCols + localCol] = score;
 }
+`
 
-@compute @workgroup_size(64)
-fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
-  let pairIndex = global_id.x;
+/**
+ * Upload embeddings as one flat storage buffer, refusing sets that exceed the
+ * device's binding limit so callers can fall back to the CPU path.
+ */
+function createEmbeddingsBuffer(
+  device: GPUDevice,
+  embeddings: number[][],
+  vectorDim: number,
+): GPUBuffer {
+  const byteLength = embeddings.length * vectorDim * Float32Array.BYTES_PER_ELEMENT
+  if (
+    byteLength > device.limits.maxStorageBufferBindingSize ||
+    byteLength > device.limits.maxBufferSize
+  ) {
+    throw new Error(
+      `Embeddings (${byteLength} bytes) exceed the GPU storage buffer limit ` +
+        `(${device.limits.maxStorageBufferBindingSize} bytes)`,
+    )
+  }
 
-  if (pairIndex >= params.totalPairs) {
-    return;
+  const flat = new Float32Array(embeddings.length * vectorDim)
+  for (let i = 0; i < embeddings.length; i++) {
+    flat.set(embeddings[i]!, i * vectorDim)
   }
 
-  // Convert pair index to (i, j) indices where i < j
-  var i: u32 = 0u;
-  var j: u32 = 0u;
-  var remaining = pairIndex;
-  var rowSize = params.numVectors - 1u;
+  const buffer = device.createBuffer({
+    size: flat.byteLength,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  })
+  device.queue.writeBuffer(buffer, 0, flat)
+  return buffer
+}
 
-  for (var row: u32 = 0u; row < params.numVectors; row = row + 1u) {
-    if (remaining < rowSize) {
-      i = row;
-      j = row + remaining + 1u;
-      break;
+/**
+ * Largest square tile edge whose result buffer fits the device's storage and buffer
+ * size limits and whose dispatch stays within maxComputeWorkgroupsPerDimension.
+ */
+function getTileSize(device: GPUDevice): number {
+  const maxBytes = Math.min(
+    device.limits.maxStorageBufferBindingSize,
+    device.limits.maxBufferSize,
+    MAX_TILE_BYTES,
+  )
+  const bySize = Math.floor(Math.sqrt(maxBytes / Float32Array.BYTES_PER_ELEMENT))
+  const byDispatch = device.limits.maxComputeWorkgroupsPerDimension * TILE_WORKGROUP_SIZE
+  const size = Math.min(bySize, byDispatch)
+  return Math.max(TILE_WORKGROUP_SIZE, size - (size % TILE_WORKGROUP_SIZE))
+}
+
+interface Tile {
+  rowStart: number
+  colStart: number
+  rows: number
+  cols: number
+}
+
+/**
+ * Score every pair of the similarity matrix tile by tile.
+ * `embeddingsB = null` compares rows within `embeddingsA` (upper triangle only).
+ * Each tile is read back while the next one is computing; `onTile` receives the
+ * tile's scores laid out row-major as rows x cols.
+ */
+async function runTiledSimilarity(
+  device: GPUDevice,
+  embeddingsA: number[][],
+  embeddingsB: number[][] | null,
+  onTile: (tile: Tile, scores: Float32Array) => void,
+  onProgress?: (current: number, total: number) => void,
+): Promise<void> {
+  const isSelfComparison = embeddingsB === null
+  const numA = embeddingsA.length
+  const numB = embeddingsB ? embeddingsB.length : numA
+  const vectorDim = embeddingsA[0]?.length || 0
+
+  if (embeddingsB && (embeddingsB[0]?.length || 0) !== vectorDim) {
+    throw new Error('Embeddings of both files must have the same dimension')
+  }
+
+  const tileSize = getTileSize(device)
+
+  // Enumerate tiles, skipping those entirely below the diagonal for self-comparison
+  const tiles: Tile[] = []
+  for (let rowStart = 0; rowStart < numA; rowStart += tileSize) {
+    const firstCol = isSelfComparison ? rowStart : 0
+    for (let colStart = firstCol; colStart < numB; colStart += tileSize) {
+      tiles.push({
+        rowStart,
+        colStart,
+        rows: Math.min(tileSize, numA - rowStart),
+        cols: Math.min(tileSize, numB - colStart),
+      })
     }
-    remaining -= rowSize;
-    rowSize -= 1u;
   }
 
-  let similarity = cosineSimilarity(i, j);
+  // Every buffer created so far; destroyed in finally even if a later
+  // allocation throws
+  const buffers: GPUBuffer[] = []
+  const track = (buffer: GPUBuffer) => {
+    buffers.push(buffer)
+    return buffer
+  }
+
+  try {
+    const embeddingsABuffer = track(createEmbeddingsBuffer(device, embeddingsA, vectorDim))
+    const embeddingsBBuffer = embeddingsB
+      ? track(createEmbeddingsBuffer(device, embeddingsB, vectorDim))
+      : embeddingsABuffer
+
+    const tileBytes = tileSize * tileSize * Float32Array.BYTES_PER_ELEMENT
+    const resultsBuffer = track(
+      device.createBuffer({
+        size: tileBytes,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+      }),
+    )
+
+    const paramsBuffer = track(
+      device.createBuffer({
+        size: 24, // 6 x u32
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      }),
+    )
+
+    // Two staging buffers so one tile can be read back while the next is computing
+    const stagingBuffers = [0, 1].map(() =>
+      track(
+        device.createBuffer({
+          size: tileBytes,
+          usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+        }),
+      ),
+    )
+
+    const shaderModule = device.createShaderModule({
+      code: tiledShaderCode,
+    })
+
+    const pipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: shaderModule,
+        entryPoint: 'main',
+      },
+    })
+
+    const bindGroup = device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: embeddingsABuffer } },
+        { binding: 1, resource: { buffer: embeddingsBBuffer } },
+        { binding: 2, resource: { buffer: resultsBuffer } },
+        { binding: 3, resource: { buffer: paramsBuffer } },
+      ],
+    })
 
-  // Store: [rowIndexA, rowIndexB, score] for each pair
-  let resultOffset = pairIndex * 3u;
-  results[resultOffset] = f32(i);
-  results[resultOffset + 1u] = f32(j);
-  results[resultOffset + 2u] = similarity;
+    const readTile = async (index: number) => {
+      const tile = tiles[index]!
+      const staging = stagingBuffers[index % 2]!
+      const byteLength = tile.rows * tile.cols * Float32Array.BYTES_PER_ELEMENT
+      await staging.mapAsync(GPUMapMode.READ, 0, byteLength)
+      onTile(tile, new Float32Array(staging.getMappedRange(0, byteLength)))
+      staging.unmap()
+
+      if (onProgress) {
+        onProgress(index + 1, tiles.length)
+      }
+    }
+
+    for (let t = 0; t < tiles.length; t++) {
+      const tile = tiles[t]!
+      device.queue.writeBuffer(
+        paramsBuffer,
+        0,
+        new Uint32Array([
+          tile.rowStart,
+          tile.colStart,
+          tile.rows,
+          tile.cols,
+          vectorDim,
+          isSelfComparison ? 1 : 0,
+        ]),
+      )
+
+      const commandEncoder = device.createCommandEncoder()
+      const passEncoder = commandEncoder.beginComputePass()
+      passEncoder.setPipeline(pipeline)
+      passEncoder.setBindGroup(0, bindGroup)
+      passEncoder.dispatchWorkgroups(
+        Math.ceil(tile.cols / TILE_WORKGROUP_SIZE),
+        Math.ceil(tile.rows / TILE_WORKGROUP_SIZE),
+      )
+      passEncoder.end()
+
+      commandEncoder.copyBufferToBuffer(
+        resultsBuffer,
+        0,
+        stagingBuffers[t % 2]!,
+        0,
+        tile.rows * tile.cols * Float32Array.BYTES_PER_ELEMENT,
+      )
+      device.queue.submit([commandEncoder.finish()])
+
+      // Read back the previous tile while this one runs
+      if (t > 0) {
+        await readTile(t - 1)
+      }
+    }
+
+    if (tiles.length > 0) {
+      await readTile(tiles.length - 1)
+    }
+  } finally {
+    buffers.forEach((buffer) => buffer.destroy())
+  }
 }
-`
 
 export async function calculateSimilaritiesOnGPU(
   embeddings: number[][],
   onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
 ): Promise<SimilarityPair[]> {
   if (!gpuDevice) {
     const initialized = await initializeWebGPU()
@@ -114,109 +338,371 @@ export async function calculateSimilaritiesOnGPU(
 
   const numVectors = embeddings.length
   const vectorDim = embeddings[0]?.length || 0
-  const totalPairs = (numVectors * (numVectors - 1)) / 2
 
   if (numVectors === 0 || vectorDim === 0) {
     return []
   }
 
-  // Flatten embeddings into a single array
-  const flatEmbeddings = new Float32Array(numVectors * vectorDim)
-  for (let i = 0; i < numVectors; i++) {
-    flatEmbeddings.set(embeddings[i]!, i * vectorDim)
-  }
+  const minScore = options.minScore ?? -Infinity
+  const results: SimilarityPair[] = []
 
-  // Create buffers
-  const embeddingsBuffer = gpuDevice.createBuffer({
-    size: flatEmbeddings.byteLength,
-    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-  })
+  await runTiledSimilarity(
+    gpuDevice,
+    embeddings,
+    null,
+    (tile, scores) => {
+      for (let r = 0; r < tile.rows; r++) {
+        const i = tile.rowStart + r
+        // Only the upper triangle (i < j) was scored
+        const firstCol = Math.max(0, i + 1 - tile.colStart)
+        for (let c = firstCol; c < tile.cols; c++) {
+          const score = scores[r * tile.cols + c]!
+          if (score < minScore) continue
+          results.push({
+            rowIndexA: i,
+            rowIndexB: tile.colStart + c,
+            sourceA: 'A',
+            sourceB: 'A',
+            score,
+          })
+        }
+      }
+    },
+    onProgress,
+  )
 
-  const resultsBuffer = gpuDevice.createBuffer({
-    size: totalPairs * 3 * Float32Array.BYTES_PER_ELEMENT,
-    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
-  })
+  // Sort by score descending
+  return results.sort((a, b) => b.score - a.score)
+}
 
-  const paramsBuffer = gpuDevice.createBuffer({
-    size: 12, // 3 x u32
-    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-  })
+export async function calculateCrossSimilaritiesOnGPU(
+  embeddingsA: number[][],
+  embeddingsB: number[][],
+  onProgress?: (current: number, total: number) => void,
+  options: SimilarityOptions = {},
+): Promise<SimilarityPair[]> {
+  if (!gpuDevice) {
+    const initialized = await initializeWebGPU()
+    if (!initialized) {
+      throw new Error('WebGPU not available')
+    }
+  }
 
-  const stagingBuffer = gpuDevice.createBuffer({
-    size: resultsBuffer.size,
-    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
-  })
+  if (!gpuDevice) {
+    throw new Error('GPU device not initialized')
+  }
 
-  // Write data
-  gpuDevice.queue.writeBuffer(embeddingsBuffer, 0, flatEmbeddings)
-  gpuDevice.queue.writeBuffer(paramsBuffer, 0, new Uint32Array([numVectors, vectorDim, totalPairs]))
+  const vectorDim = embeddingsA[0]?.length || 0
 
-  // Create shader module and pipeline
-  const shaderModule = gpuDevice.createShaderModule({
-    code: computeShaderCode,
-  })
+  if (embeddingsA.length === 0 || embeddingsB.length === 0 || vectorDim === 0) {
+    return []
+  }
 
-  const pipeline = gpuDevice.createComputePipeline({
-    layout: 'auto',
-    compute: {
-      module: shaderModule,
-      entryPoint: 'main',
+  const minScore = options.minScore ?? -Infinity
+  const results: SimilarityPair[] = []
+
+  await runTiledSimilarity(
+    gpuDevice,
+    embeddingsA,
+    embeddingsB,
+    (tile, scores) => {
+      for (let r = 0; r < tile.rows; r++) {
+        for (let c = 0; c < tile.cols; c++) {
+          const score = scores[r * tile.cols + c]!
+          if (score < minScore) continue
+          results.push({
+            rowIndexA: tile.rowStart + r,
+            rowIndexB: tile.colStart + c,
+            sourceA: 'A',
+            sourceB: 'B',
+            score,
+          })
+        }
+      }
     },
-  })
+    onProgress,
+  )
 
-  const bindGroup = gpuDevice.createBindGroup({
-    layout: pipeline.getBindGroupLayout(0),
-    entries: [
-      { binding: 0, resource: { buffer: embeddingsBuffer } },
-      { binding: 1, resource: { buffer: resultsBuffer } },
-      { binding: 2, resource: { buffer: paramsBuffer } },
-    ],
-  })
+  return results.sort((a, b) => b.score - a.score)
+}
+
+// Top-K neighbour shader: one invocation per query row scans every candidate row and
+// keeps its K best matches in a sorted private array, so output is queryCount * K.
+// Queries are processed in chunks to stay within dispatch and buffer limits.
+const MAX_GPU_NEIGHBOURS = MAX_TOP_K
+
+// Below any cosine score, used when no minimum score is set
+const NO_MIN_SCORE = -2
+
+// Keeps each neighbour dispatch short enough for the GPU watchdog
+const MAX_NEIGHBOUR_QUERIES_PER_DISPATCH = 4096
+
+const neighboursShaderCode = `
+const MAX_K: u32 = ${MAX_GPU_NEIGHBOURS}u;
+
+struct Params {
+  queryStart: u32,
+  queryCount: u32,
+  numCandidates: u32,
+  vectorDim: u32,
+  k: u32,
+  minScore: f32,
+  excludeSelf: u32,
+}
+
+@group(0) @binding(0) var<storage, read> queries: array<f32>;
+@group(0) @binding(1) var<storage, read> candidates: array<f32>;
+@group(0) @binding(2) var<storage, read_write> results: array<f32>;
+@group(0) @binding(3) var<uniform> params: Params;
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  let localQuery = global_id.x;
+
+  if (localQuery >= params.queryCount) {
+    return;
+  }
+
+  let q = params.queryStart + localQuery;
+
+  // Best matches so far, sorted by score descending
+  var bestScores: array<f32, MAX_K>;
+  var bestIndices: array<i32, MAX_K>;
+  var count: u32 = 0u;
+
+  let offsetQ = q * params.vectorDim;
+  var normQ: f32 = 0.0;
+  for (var d: u32 = 0u; d < params.vectorDim; d = d + 1u) {
+    let valQ = queries[offsetQ + d];
+    normQ += valQ * valQ;
+  }
 
-  // Execute compute shader
-  const commandEncoder = gpuDevice.createCommandEncoder()
-  const passEncoder = commandEncoder.beginComputePass()
-  passEncoder.setPipeline(pipeline)
-  passEncoder.setBindGroup(0, bindGroup)
+  for (var c: u32 = 0u; c < params.numCandidates; c = c + 1u) {
+    if (params.excludeSelf == 1u && c == q) {
+      continue;
+    }
 
-  const workgroupsX = Math.ceil(totalPairs / 64)
-  passEncoder.dispatchWorkgroups(workgroupsX)
-  passEncoder.end()
+    let offsetC = c * params.vectorDim;
+    var dotProduct: f32 = 0.0;
+    var normC: f32 = 0.0;
+    for (var d: u32 = 0u; d < params.vectorDim; d = d + 1u) {
+      let valC = candidates[offsetC + d];
+      dotProduct += queries[offsetQ + d] * valC;
+      normC += valC * valC;
+    }
 
-  // Copy results to staging buffer
-  commandEncoder.copyBufferToBuffer(resultsBuffer, 0, stagingBuffer, 0, resultsBuffer.size)
+    let denominator = sqrt(normQ) * sqrt(normC);
+    var score: f32 = 0.0;
+    if (denominator != 0.0) {
+      score = dotProduct / denominator;
+    }
 
-  gpuDevice.queue.submit([commandEncoder.finish()])
+    if (score < params.minScore) {
+      continue;
+    }
+    if (count == params.k && score <= bestScores[params.k - 1u]) {
+      continue;
+    }
 
-  // Report progress during GPU execution
-  if (onProgress) {
-    onProgress(totalPairs, totalPairs)
+    // Insertion into the sorted list, dropping the weakest match when full
+    var pos: u32 = count;
+    if (count < params.k) {
+      count = count + 1u;
+    } else {
+      pos = params.k - 1u;
+    }
+    while (pos > 0u && bestScores[pos - 1u] < score) {
+      bestScores[pos] = bestScores[pos - 1u];
+      bestIndices[pos] = bestIndices[pos - 1u];
+      pos = pos - 1u;
+    }
+    bestScores[pos] = score;
+    bestIndices[pos] = i32(c);
   }
 
-  // Read results
-  await stagingBuffer.mapAsync(GPUMapMode.READ)
-  const resultData = new Float32Array(stagingBuffer.getMappedRange())
+  // Store: [neighbourIndex, score] per slot, index -1 marks an empty slot
+  let outOffset = localQuery * params.k * 2u;
+  for (var n: u32 = 0u; n < params.k; n = n + 1u) {
+    if (n < count) {
+      results[outOffset + n * 2u] = f32(bestIndices[n]);
+      results[outOffset + n * 2u + 1u] = bestScores[n];
+    } else {
+      results[outOffset + n * 2u] = -1.0;
+      results[outOffset + n * 2u + 1u] = 0.0;
+    }
+  }
+}
+`
+
+/**
+ * Find the best K matches per row on the GPU.
+ * Pass `candidates = null` to search within `queries` (self-matches are skipped),
+ * or a second embedding set to match rows of A against rows of B.
+ */
+export async function calculateNeighboursOnGPU(
+  queries: number[][],
+  candidates: number[][] | null,
+  options: SimilarityOptions,
+  onProgress?: (current: number, total: number) => void,
+): Promise<SimilarityPair[]> {
+  if (!gpuDevice) {
+    const initialized = await initializeWebGPU()
+    if (!initialized) {
+      throw new Error('WebGPU not available')
+    }
+  }
+
+  if (!gpuDevice) {
+    throw new Error('GPU device not initialized')
+  }
+
+  const k = options.topK ?? 0
+  if (k < 1 || k > MAX_GPU_NEIGHBOURS) {
+    throw new Error(`GPU top-K supports 1-${MAX_GPU_NEIGHBOURS} neighbours per row`)
+  }
+
+  const isSelfSearch = candidates === null
+  const candidateSet = candidates ?? queries
+  const numQueries = queries.length
+  const numCandidates = candidateSet.length
+  const vectorDim = queries[0]?.length || 0
+
+  if (numQueries === 0 || numCandidates === 0 || vectorDim === 0) {
+    return []
+  }
+
+  if ((candidateSet[0]?.length || 0) !== vectorDim) {
+    throw new Error('Embeddings of both files must have the same dimension')
+  }
+
+  const device = gpuDevice
+
+  // Queries per dispatch, bounded by workgroup count, result buffer size and a fixed
+  // cap so a single dispatch never runs long enough to trip the GPU watchdog
+  const maxResultBytes = Math.min(
+    device.limits.maxStorageBufferBindingSize,
+    device.limits.maxBufferSize,
+    MAX_TILE_BYTES,
+  )
+  const chunkSize = Math.min(
+    device.limits.maxComputeWorkgroupsPerDimension * 64,
+    Math.floor(maxResultBytes / (k * 2 * Float32Array.BYTES_PER_ELEMENT)),
+    MAX_NEIGHBOUR_QUERIES_PER_DISPATCH,
+  )
 
   const results: SimilarityPair[] = []
-  for (let i = 0; i < totalPairs; i++) {
-    const offset = i * 3
-    results.push({
-      rowIndexA: Math.round(resultData[offset]!),
-      rowIndexB: Math.round(resultData[offset + 1]!),
-      score: resultData[offset + 2]!,
-    })
+
+  // Every buffer created so far; destroyed in finally even if a later
+  // allocation throws
+  const buffers: GPUBuffer[] = []
+  const track = (buffer: GPUBuffer) => {
+    buffers.push(buffer)
+    return buffer
   }
 
-  stagingBuffer.unmap()
+  try {
+    // Self-search binds the same embeddings as both queries and candidates
+    const queriesBuffer = track(createEmbeddingsBuffer(device, queries, vectorDim))
+    const candidatesBuffer = isSelfSearch
+      ? queriesBuffer
+      : track(createEmbeddingsBuffer(device, candidateSet, vectorDim))
+
+    const chunkBytes = Math.min(chunkSize, numQueries) * k * 2 * Float32Array.BYTES_PER_ELEMENT
+    const resultsBuffer = track(
+      device.createBuffer({
+        size: chunkBytes,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+      }),
+    )
 
-  // Cleanup
-  embeddingsBuffer.destroy()
-  resultsBuffer.destroy()
-  paramsBuffer.destroy()
-  stagingBuffer.destroy()
+    const paramsBuffer = track(
+      device.createBuffer({
+        size: 28, // 5 x u32, f32, u32
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      }),
+    )
 
-  // Sort by score descending
-  return results.sort((a, b) => b.score - a.score)
+    const stagingBuffer = track(
+      device.createBuffer({
+        size: chunkBytes,
+        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+      }),
+    )
+
+    const shaderModule = device.createShaderModule({
+      code: neighboursShaderCode,
+    })
+
+    const pipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: shaderModule,
+        entryPoint: 'main',
+      },
+    })
+
+    const bindGroup = device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: queriesBuffer } },
+        { binding: 1, resource: { buffer: candidatesBuffer } },
+        { binding: 2, resource: { buffer: resultsBuffer } },
+        { binding: 3, resource: { buffer: paramsBuffer } },
+      ],
+    })
+
+    for (let queryStart = 0; queryStart < numQueries; queryStart += chunkSize) {
+      const queryCount = Math.min(chunkSize, numQueries - queryStart)
+
+      const params = new ArrayBuffer(28)
+      new Uint32Array(params, 0, 5).set([queryStart, queryCount, numCandidates, vectorDim, k])
+      new Float32Array(params, 20, 1)[0] = options.minScore ?? NO_MIN_SCORE
+      new Uint32Array(params, 24, 1)[0] = isSelfSearch ? 1 : 0
+      device.queue.writeBuffer(paramsBuffer, 0, params)
+
+      // Execute compute shader
+      const commandEncoder = device.createCommandEncoder()
+      const passEncoder = commandEncoder.beginComputePass()
+      passEncoder.setPipeline(pipeline)
+      passEncoder.setBindGroup(0, bindGroup)
+      passEncoder.dispatchWorkgroups(Math.ceil(queryCount / 64))
+      passEncoder.end()
+
+      const byteLength = queryCount * k * 2 * Float32Array.BYTES_PER_ELEMENT
+      commandEncoder.copyBufferToBuffer(resultsBuffer, 0, stagingBuffer, 0, byteLength)
+      device.queue.submit([commandEncoder.finish()])
+
+      // Read results, already sorted best-first per row
+      await stagingBuffer.mapAsync(GPUMapMode.READ, 0, byteLength)
+      const resultData = new Float32Array(stagingBuffer.getMappedRange(0, byteLength))
+
+      for (let localQuery = 0; localQuery < queryCount; localQuery++) {
+        for (let n = 0; n < k; n++) {
+          const offset = (localQuery * k + n) * 2
+          const neighbour = Math.round(resultData[offset]!)
+          if (neighbour < 0) break
+          results.push({
+            rowIndexA: queryStart + localQuery,
+            rowIndexB: neighbour,
+            sourceA: 'A',
+            sourceB: isSelfSearch ? 'A' : 'B',
+            score: resultData[offset + 1]!,
+            rank: n + 1,
+          })
+        }
+      }
+
+      stagingBuffer.unmap()
+
+      if (onProgress) {
+        onProgress(queryStart + queryCount, numQueries)
+      }
+    }
+  } finally {
+    buffers.forEach((buffer) => buffer.destroy())
+  }
+
+  return results
 }
 
 export function isWebGPUAvailableForSimilarity(): boolean {
@@ -0,0 +1,39 @@
+// Compute worker: runs embedding, similarity scoring and clustering off the
+// main thread. Protocol types live in src/utils/computeWorker.ts.
+
+import { registerCustomModels } from '@/utils/models'
+import { registerBackendSettings } from '@/utils/backendSettings'
+import { runComputeJob, type ProgressCallback } from '@/utils/computeJobs'
+import type { WorkerRequest, WorkerResponse } from '@/utils/computeWorker'
+
+// Scoring loops report every 100 pairs; forward at most this often
+const PROGRESS_INTERVAL_MS = 100
+
+function post(message: WorkerResponse) {
+  self.postMessage(message)
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+  let lastProgress = 0
+  const onProgress: ProgressCallback = (current, total) => {
+    const now = performance.now()
+    if (current < total && now - lastProgress < PROGRESS_INTERVAL_MS) return
+    lastProgress = now
+    post({ id: request.id, type: 'progress', current, total })
+  }
+
+  try {
+    registerCustomModels(request.customModels)
+    registerBackendSettings(request.backendSettings)
+    const result = await runComputeJob(request, onProgress)
+    post({ id: request.id, type: 'result', result })
+  } catch (error) {
+    console.error('[ComputeWorker] Job failed:', error)
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Worker job failed',
+    })
+  }
+}